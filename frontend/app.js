@@ -0,0 +1,250 @@
+/**
+ * BlockAssassin dashboard
+ * Lists bots from the REST API and updates statuses, HUDs and logs live from the /events stream.
+ */
+"use strict";
+
+const MAX_LOGS = 500;
+
+const state = {
+    apiKey: localStorage.getItem("ba-api-key") ?? "",
+    bots: new Map(), // name -> { status, hudStr, updatedAt }
+    selected: null,
+    logs: [],
+    source: null,
+};
+
+const $ = (id) => document.getElementById(id);
+
+/**
+ * Call the REST API, adding the API key when one is set
+ */
+async function api(path, options = {}) {
+    const headers = { "Content-Type": "application/json", ...options.headers };
+    if (state.apiKey) headers.Authorization = `Bearer ${state.apiKey}`;
+
+    const response = await fetch(`/api${path}`, { ...options, headers });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(body.error ?? `${response.status} ${response.statusText}`);
+    }
+    return body;
+}
+
+function showError(message) {
+    $("error").textContent = message ?? "";
+    $("error").hidden = !message;
+}
+
+function getBot(name) {
+    if (!state.bots.has(name)) {
+        state.bots.set(name, { status: null, hudStr: null, updatedAt: null });
+    }
+    return state.bots.get(name);
+}
+
+async function loadBots() {
+    try {
+        const { bots } = await api("/bots");
+        for (const bot of bots) {
+            getBot(bot.name).status = bot.status;
+        }
+        showError(null);
+    } catch (error) {
+        showError(`Could not load bots: ${error.message}`);
+    }
+    renderBots();
+}
+
+async function loadHud(name) {
+    try {
+        const hud = await api(`/bots/${encodeURIComponent(name)}/hud`);
+        Object.assign(getBot(name), { hudStr: hud.hudStr, updatedAt: hud.updatedAt });
+    } catch {
+        // No HUD yet, it arrives with the next sync
+    }
+    renderDetails();
+}
+
+async function runAction(action) {
+    if (!state.selected) return;
+    try {
+        const { bot } = await api(`/bots/${encodeURIComponent(state.selected)}/${action}`, { method: "POST" });
+        getBot(bot.name).status = bot.status;
+        showError(null);
+    } catch (error) {
+        showError(`${action} failed: ${error.message}`);
+    }
+    renderBots();
+    renderDetails();
+}
+
+function selectBot(name) {
+    state.selected = name;
+    renderBots();
+    renderDetails();
+    renderLogs();
+    loadHud(name);
+}
+
+function renderBots() {
+    const list = $("bot-list");
+    list.replaceChildren(
+        ...[...state.bots.keys()].sort().map((name) => {
+            const item = document.createElement("li");
+            item.classList.toggle("selected", name === state.selected);
+            item.onclick = () => selectBot(name);
+
+            const label = document.createElement("span");
+            label.textContent = name;
+            const status = getBot(name).status ?? "no worker";
+            const badge = document.createElement("span");
+            badge.className = `badge ${status}`;
+            badge.textContent = status;
+
+            item.append(label, badge);
+            return item;
+        }),
+    );
+}
+
+/**
+ * Split a HUD string into its sections, headers are upper case lines such as "STATS" or "NEARBY_BLOCKS: none"
+ */
+function parseHud(hudStr) {
+    const sections = [];
+    for (const line of hudStr.split("\n")) {
+        const header = /^([A-Z_]+)(?::\s*(.*))?$/.exec(line);
+        if (header) {
+            sections.push({ title: header[1], lines: header[2] ? [header[2]] : [] });
+        } else if (sections.length) {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+    return sections;
+}
+
+function renderDetails() {
+    const name = state.selected;
+    const bot = name ? getBot(name) : null;
+    $("bot-name").textContent = name ?? "Select a bot";
+
+    for (const button of document.querySelectorAll("[data-action]")) {
+        button.disabled = !name;
+    }
+
+    const hud = $("hud");
+    if (!bot?.hudStr) {
+        hud.replaceChildren();
+        $("hud-updated").textContent = name ? "No HUD received yet" : "";
+        return;
+    }
+
+    hud.replaceChildren(
+        ...parseHud(bot.hudStr).map((section) => {
+            const block = document.createElement("div");
+            const title = document.createElement("h3");
+            title.textContent = section.title.replaceAll("_", " ");
+            const body = document.createElement("pre");
+            body.textContent = section.lines.join("\n") || "none";
+            block.append(title, body);
+            return block;
+        }),
+    );
+    $("hud-updated").textContent = `Updated ${new Date(bot.updatedAt).toLocaleTimeString()}`;
+}
+
+function logVisible(entry) {
+    return !$("logs-selected").checked || entry.bot === state.selected;
+}
+
+function createLogItem(entry) {
+    const item = document.createElement("li");
+    item.className = entry.className;
+    item.textContent = `${new Date(entry.timestamp).toLocaleTimeString()} [${entry.bot ?? "server"}] ${entry.text}`;
+    return item;
+}
+
+function renderLogs() {
+    $("log-list").replaceChildren(...state.logs.filter(logVisible).map(createLogItem));
+}
+
+function appendLog(entry) {
+    state.logs.push(entry);
+    if (state.logs.length > MAX_LOGS) state.logs.shift();
+    if (!logVisible(entry)) return;
+
+    // Keep following the tail unless the user scrolled up
+    const container = $("logs");
+    const atBottom = container.scrollTop + container.clientHeight >= container.scrollHeight - 8;
+    const list = $("log-list");
+    list.append(createLogItem(entry));
+    if (list.children.length > MAX_LOGS) list.firstChild.remove();
+    if (atBottom) container.scrollTop = container.scrollHeight;
+}
+
+/**
+ * Apply an event from the stream
+ */
+function handleEvent(event) {
+    if (!event.bot) return;
+    const bot = getBot(event.bot);
+
+    switch (event.type) {
+        case "status":
+            bot.status = event.data.status;
+            renderBots();
+            break;
+        case "hud":
+            bot.hudStr = event.data.hudStr;
+            bot.updatedAt = event.timestamp;
+            if (event.bot === state.selected) renderDetails();
+            break;
+        case "log":
+            appendLog({ bot: event.bot, timestamp: event.timestamp, className: event.data.level, text: event.data.message });
+            break;
+        case "game": {
+            const { bot: _bot, ...data } = event.data;
+            appendLog({ bot: event.bot, timestamp: event.timestamp, className: "game", text: `${event.event} ${JSON.stringify(data)}` });
+            break;
+        }
+    }
+}
+
+function connect() {
+    state.source?.close();
+    const query = state.apiKey ? `?access_token=${encodeURIComponent(state.apiKey)}` : "";
+    const source = new EventSource(`/events${query}`);
+    const badge = $("connection");
+
+    source.onopen = () => {
+        badge.textContent = "live";
+        badge.className = "badge online";
+    };
+    source.onerror = () => {
+        badge.textContent = "offline";
+        badge.className = "badge offline";
+    };
+    for (const type of ["status", "hud", "log", "game"]) {
+        source.addEventListener(type, (message) => handleEvent(JSON.parse(message.data)));
+    }
+    state.source = source;
+}
+
+$("auth").onsubmit = (event) => {
+    event.preventDefault();
+    state.apiKey = $("api-key").value.trim();
+    localStorage.setItem("ba-api-key", state.apiKey);
+    loadBots();
+    connect();
+};
+
+for (const button of document.querySelectorAll("[data-action]")) {
+    button.onclick = () => runAction(button.dataset.action);
+}
+
+$("logs-selected").onchange = renderLogs;
+$("api-key").value = state.apiKey;
+
+loadBots();
+connect();
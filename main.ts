@@ -1,5 +1,14 @@
 import "@std/dotenv/load";
+import config from "@/config.ts";
 import Server from "@/server/index.ts";
+import { logger } from "@/utils/logger.ts";
+
+// The errors were logged while loading
+const configErrors = config.getErrors();
+if (configErrors.length > 0) {
+    logger.error(`Refusing to start with ${configErrors.length} config error(s), see "deno task validate-config"`);
+    Deno.exit(1);
+}
 
 const server = new Server();
 
@@ -0,0 +1,232 @@
+/**
+ * Generate, inspect, verify and rotate the RSA key pairs used by the WebSocket client
+ * Usage:
+ *   deno task keys generate [--out .] [--name ba_client] [--bits 2048] [--force]
+ *   deno task keys inspect [file.pem ...]       (defaults to the files in settings.jsonc)
+ *   deno task keys verify <public.pem> <private.pem>
+ *   deno task keys rotate stage|promote|finish [--private ./ba_client_private.pem] [--bits 2048] [--force]
+ */
+import { basename, dirname, join } from "@std/path";
+import config from "@/config.ts";
+import { generateRsaKeyPair, getKeyFingerprint, RsaKeyManager } from "@/utils/crypto.ts";
+
+const keyManager = RsaKeyManager.getInstance();
+
+/**
+ * Split arguments into positionals and --name=value, --name value or --name (true) flags
+ */
+export function parseArgs(args: string[]): { positionals: string[]; flags: Map<string, string> } {
+    const positionals: string[] = [];
+    const flags = new Map<string, string>();
+    for (let i = 0; i < args.length; i++) {
+        const match = /^--([\w-]+)(?:=(.*))?$/s.exec(args[i]);
+        if (!match) {
+            positionals.push(args[i]);
+        } else if (match[2] !== undefined) {
+            flags.set(match[1], match[2]);
+        } else if (match[1] !== "force" && i + 1 < args.length && !args[i + 1].startsWith("--")) {
+            flags.set(match[1], args[++i]);
+        } else {
+            flags.set(match[1], "true");
+        }
+    }
+    return { positionals, flags };
+}
+
+async function exists(path: string): Promise<boolean> {
+    try {
+        await Deno.stat(path);
+        return true;
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return false;
+        throw error;
+    }
+}
+
+/**
+ * Write a key pair, the private key readable by the owner only
+ */
+async function writeKeyPair(publicPath: string, privatePath: string, bits: number, force: boolean): Promise<CryptoKey> {
+    for (const path of [publicPath, privatePath]) {
+        if (!force && await exists(path)) {
+            throw new Error(`${path} already exists, pass --force to overwrite it`);
+        }
+    }
+
+    const { publicKeyPem, privateKeyPem } = await generateRsaKeyPair(bits);
+    await Deno.mkdir(dirname(privatePath), { recursive: true });
+    await Deno.writeTextFile(privatePath, privateKeyPem, { mode: 0o600 });
+    await Deno.writeTextFile(publicPath, publicKeyPem);
+    return await keyManager.importPublicKey(publicKeyPem);
+}
+
+/**
+ * Public key of a private key, through its JWK modulus and exponent
+ */
+async function derivePublicKey(privateKey: CryptoKey): Promise<CryptoKey> {
+    const { kty, n, e } = await crypto.subtle.exportKey("jwk", privateKey);
+    return await crypto.subtle.importKey("jwk", { kty, n, e }, { name: "RSA-OAEP", hash: "SHA-256" }, true, ["encrypt"]);
+}
+
+/**
+ * Read a PEM file and import it the way RsaKeyManager does
+ */
+async function readKey(path: string): Promise<{ type: "public" | "private"; key: CryptoKey; publicKey: CryptoKey }> {
+    const pem = (await Deno.readTextFile(path)).trim();
+    if (pem.includes("BEGIN PUBLIC KEY")) {
+        const key = await keyManager.importPublicKey(pem);
+        return { type: "public", key, publicKey: key };
+    }
+    if (pem.includes("BEGIN PRIVATE KEY")) {
+        const key = await keyManager.importPrivateKey(pem);
+        return { type: "private", key, publicKey: await derivePublicKey(key) };
+    }
+    throw new Error(`${path} is not a PEM "PUBLIC KEY" (SPKI) or "PRIVATE KEY" (PKCS#8)`);
+}
+
+/**
+ * Paths of the public key and the staged and retired copies that belong to a private key
+ * e.g. ba_client_private.pem: ba_client_public.pem, ba_client_private.next.pem, ba_client_private.old.pem
+ */
+export function rotationPaths(privatePath: string) {
+    const dir = dirname(privatePath);
+    const name = basename(privatePath).replace(/\.pem$/, "");
+    const publicName = name.includes("private") ? name.replace("private", "public") : `${name}_public`;
+    const paths = (suffix: string) => ({
+        privatePath: join(dir, `${name}${suffix}.pem`),
+        publicPath: join(dir, `${publicName}${suffix}.pem`),
+    });
+    return { current: paths(""), next: paths(".next"), old: paths(".old") };
+}
+
+/**
+ * Read the RSA modulus length from --bits, defaults to 2048
+ */
+export function parseBits(flags: Map<string, string>): number {
+    const bits = Number(flags.get("bits") ?? 2048);
+    if (![2048, 3072, 4096].includes(bits)) {
+        throw new Error("--bits must be 2048, 3072 or 4096");
+    }
+    return bits;
+}
+
+async function generate(flags: Map<string, string>): Promise<void> {
+    const bits = parseBits(flags);
+    const out = flags.get("out") ?? ".";
+    const name = flags.get("name") ?? "ba_client";
+    const publicPath = join(out, `${name}_public.pem`);
+    const privatePath = join(out, `${name}_private.pem`);
+
+    const publicKey = await writeKeyPair(publicPath, privatePath, bits, flags.has("force"));
+    console.log(`Wrote ${publicPath} and ${privatePath} (RSA ${bits}-bit)`);
+    console.log(`Fingerprint: ${await getKeyFingerprint(publicKey)}`);
+}
+
+async function inspect(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+        const pem = config.settings.websocket?.pem;
+        paths = [pem?.serverPublicKey, pem?.clientPrivateKey, ...(pem?.additionalClientPrivateKeys ?? [])]
+            .filter((path): path is string => !!path);
+    }
+
+    for (const path of paths) {
+        const { type, key, publicKey } = await readKey(path);
+        const bits = (key.algorithm as RsaHashedKeyAlgorithm).modulusLength;
+        console.log(`${path}: RSA ${bits}-bit ${type} key, ${await getKeyFingerprint(publicKey)}`);
+    }
+}
+
+async function verify(publicPath: string | undefined, privatePath: string | undefined): Promise<boolean> {
+    if (!publicPath || !privatePath) {
+        throw new Error("Usage: deno task keys verify <public.pem> <private.pem>");
+    }
+
+    const publicKey = await readKey(publicPath);
+    const privateKey = await readKey(privatePath);
+    if (publicKey.type !== "public" || privateKey.type !== "private") {
+        throw new Error("Pass the public key first, then the private key");
+    }
+
+    const fingerprint = await getKeyFingerprint(publicKey.key);
+    console.log(`Public key:  ${fingerprint}`);
+    console.log(`Private key: ${await getKeyFingerprint(privateKey.publicKey)}`);
+
+    // Round trip a random AES key, as the message encryptor does
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    try {
+        const encrypted = await crypto.subtle.encrypt({ name: "RSA-OAEP" }, publicKey.key, secret);
+        const decrypted = new Uint8Array(await crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey.key, encrypted));
+        if (decrypted.every((byte, i) => byte === secret[i]) && decrypted.length === secret.length) {
+            console.log("Keys match, round-trip encryption succeeded");
+            return true;
+        }
+    } catch {
+        // Reported below
+    }
+    console.error("Keys do not match, round-trip encryption failed");
+    return false;
+}
+
+async function rotate(step: string | undefined, flags: Map<string, string>): Promise<void> {
+    const privatePath = flags.get("private") ?? config.settings.websocket?.pem?.clientPrivateKey ?? "./ba_client_private.pem";
+    const { current, next, old } = rotationPaths(privatePath);
+
+    if (step === "stage") {
+        const bits = parseBits(flags);
+        const publicKey = await writeKeyPair(next.publicPath, next.privatePath, bits, flags.has("force"));
+        console.log(`Staged ${next.publicPath} and ${next.privatePath} (RSA ${bits}-bit), ${await getKeyFingerprint(publicKey)}`);
+        console.log(`1. Add "${next.privatePath}" to websocket.pem.additionalClientPrivateKeys so that both keys are accepted`);
+        console.log(`2. Register ${next.publicPath} with the server`);
+        console.log("3. Run: deno task keys rotate promote");
+    } else if (step === "promote") {
+        if (!await exists(next.privatePath)) {
+            throw new Error(`${next.privatePath} not found, run "deno task keys rotate stage" first`);
+        }
+        if (await exists(old.privatePath)) {
+            throw new Error(`${old.privatePath} exists, run "deno task keys rotate finish" for the previous rotation first`);
+        }
+        for (const [from, to] of [[current, old], [next, current]]) {
+            for (const key of ["privatePath", "publicPath"] as const) {
+                if (await exists(from[key])) {
+                    await Deno.rename(from[key], to[key]);
+                }
+            }
+        }
+        console.log(`Promoted the staged key to ${current.privatePath}, the previous key is now ${old.privatePath}`);
+        console.log(`1. Replace "${next.privatePath}" with "${old.privatePath}" in websocket.pem.additionalClientPrivateKeys`);
+        console.log("2. Once the server no longer uses the previous public key, run: deno task keys rotate finish");
+    } else if (step === "finish") {
+        for (const path of [old.privatePath, old.publicPath]) {
+            if (await exists(path)) {
+                await Deno.remove(path);
+                console.log(`Removed ${path}`);
+            }
+        }
+        console.log(`Remove "${old.privatePath}" from websocket.pem.additionalClientPrivateKeys`);
+    } else {
+        throw new Error("Usage: deno task keys rotate stage|promote|finish [--private <path>] [--bits 2048]");
+    }
+}
+
+if (import.meta.main) {
+    const { positionals, flags } = parseArgs(Deno.args);
+    const [command, ...rest] = positionals;
+
+    try {
+        if (command === "generate") {
+            await generate(flags);
+        } else if (command === "inspect") {
+            await inspect(rest);
+        } else if (command === "verify") {
+            if (!await verify(rest[0], rest[1])) Deno.exit(1);
+        } else if (command === "rotate") {
+            await rotate(rest[0], flags);
+        } else {
+            console.error("Usage: deno task keys generate|inspect|verify|rotate, see scripts/keys.ts");
+            Deno.exit(1);
+        }
+    } catch (error) {
+        console.error((error as Error).message);
+        Deno.exit(1);
+    }
+}
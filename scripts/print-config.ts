@@ -0,0 +1,7 @@
+/**
+ * Print the effective configuration after environment variable and flag overrides, with secrets redacted
+ * Usage: deno task print-config [--ws-host=example.com ...]
+ */
+import config from "@/config.ts";
+
+console.log(JSON.stringify(config.getEffectiveConfig(), null, 4));
@@ -0,0 +1,14 @@
+/**
+ * Check config/settings.jsonc, config/game.jsonc and config/bots/* against their schemas
+ * Issues are logged with the file and JSON path, the exit code is 1 if there are errors.
+ * Usage: deno task validate-config
+ */
+import config from "@/config.ts";
+
+const errors = config.getErrors();
+if (errors.length > 0) {
+    console.error(`Found ${errors.length} config error(s)`);
+    Deno.exit(1);
+}
+
+console.log(`Config is valid (${config.getBotNames().length} bots)`);
@@ -0,0 +1,260 @@
+import { Bot, BotEvents } from "mineflayer";
+
+/**
+ * Kill, death and damage attribution
+ * Combines entity events, health changes and server death messages into structured events:
+ * - botDamaged: the bot lost health, with the most likely attacker
+ * - botDied: the bot died, with its killer when known
+ * - playerKilled: the bot killed another player
+ */
+
+export type CombatEventType = "botDamaged" | "botDied" | "playerKilled";
+
+type Entity = Bot["entity"];
+type ChatMessage = Parameters<BotEvents["messagestr"]>[2];
+
+/**
+ * Most likely source of damage
+ */
+export interface Attribution {
+    attacker?: string; // Player username or mob name
+    attackerType?: string; // Entity type, e.g. "player" or "hostile"
+    weapon?: string; // Item held by the attacker
+    distance?: number;
+}
+
+/**
+ * Death parsed from a server death message
+ */
+export interface DeathMessage {
+    victim: string;
+    killer?: string;
+    weapon?: string;
+    cause: string; // Translation key without the "death." prefix, e.g. "attack.player"
+}
+
+// How long attacker swings and damage stay relevant for attribution
+const SWING_WINDOW = 1000;
+const DAMAGE_WINDOW = 10000;
+const ATTACK_WINDOW = 5000;
+
+// Delay before reporting, so that the death message and the death event can be merged
+const MERGE_DELAY = 500;
+
+const MELEE_RANGE = 6;
+const RANGED_RANGE = 48;
+const RANGED_WEAPONS = ["bow", "crossbow", "trident"];
+
+// Plain text death messages, for servers that do not send translatable messages
+const DEATH_TEXT_PATTERNS: [RegExp, string][] = [
+    [/^(\S+) was slain by (.+?)(?: using (.+))?$/, "attack.player"],
+    [/^(\S+) was shot by (.+?)(?: using (.+))?$/, "attack.arrow"],
+    [/^(\S+) was killed by (.+?)(?: using (.+))?$/, "attack.indirectMagic"],
+];
+
+/**
+ * Parse a server death message
+ * Vanilla death messages are translatable, with the victim, the killer and the weapon as arguments.
+ * @param translate Translation key, e.g. "death.attack.player.item"
+ * @param args Translation arguments as plain text
+ * @param text Plain text of the message, used when it is not translatable
+ * @returns The parsed death, or null if the message is not a death message
+ */
+export function parseDeathMessage(translate: string | undefined, args: string[], text = ""): DeathMessage | null {
+    if (translate?.startsWith("death.") && args.length) {
+        const [victim, killer, weapon] = args;
+        return {
+            victim,
+            killer: killer || undefined,
+            weapon: weapon?.replace(/^\[|\]$/g, "") || undefined,
+            cause: translate.slice("death.".length).replace(/\.item$/, ""),
+        };
+    }
+
+    for (const [pattern, cause] of DEATH_TEXT_PATTERNS) {
+        const match = pattern.exec(text.trim());
+        if (match) {
+            return { victim: match[1], killer: match[2], weapon: match[3]?.replace(/^\[|\]$/g, ""), cause };
+        }
+    }
+
+    return null;
+}
+
+function entityName(entity: Entity): string {
+    return entity.username ?? entity.displayName ?? entity.name ?? `entity ${entity.id}`;
+}
+
+/**
+ * CombatTracker class
+ * Listens to a bot's events and reports attributed combat events through a callback.
+ */
+export class CombatTracker {
+    private bot: Bot;
+    private emit: (type: CombatEventType, data: Record<string, unknown>) => void;
+    private lastHealth: number;
+    private swings: Map<number, number> = new Map();
+    private pendingHurt: { attribution: Attribution; time: number } | null = null;
+    private lastDamage: { attribution: Attribution; time: number } | null = null;
+    private attacks: Map<string, { weapon?: string; time: number }> = new Map();
+    private deathMessage: DeathMessage | null = null;
+    private reportedKills: Map<string, number> = new Map();
+
+    /**
+     * Create a new CombatTracker and start listening
+     * @param bot The bot to track
+     * @param emit Callback receiving each event type and its data
+     */
+    constructor(bot: Bot, emit: (type: CombatEventType, data: Record<string, unknown>) => void) {
+        this.bot = bot;
+        this.emit = emit;
+        this.lastHealth = bot.health ?? 20;
+
+        bot.on("entitySwingArm", (entity) => {
+            this.swings.set(entity.id, Date.now());
+        });
+        bot.on("entityHurt", (entity) => this.onEntityHurt(entity));
+        bot.on("health", () => this.onHealth());
+        bot.on("death", () => this.onDeath());
+        bot.on("entityDead", (entity) => this.onEntityDead(entity));
+        bot.on("messagestr", (message, _position, jsonMsg) => this.onMessage(message, jsonMsg));
+        bot.on("spawn", () => {
+            this.lastHealth = bot.health ?? 20;
+            this.lastDamage = null;
+        });
+    }
+
+    /**
+     * Record an attack by the bot, used to attribute kills when no death message is sent
+     * @param target Username or name of the attacked entity
+     */
+    public recordAttack(target: string) {
+        this.attacks.set(target, { weapon: this.bot.heldItem?.name, time: Date.now() });
+    }
+
+    /**
+     * Find the most likely attacker of the bot
+     * Entities that just swung their arm within melee range come first, then the closest armed
+     * player or hostile mob in range.
+     */
+    public findAttacker(): Attribution {
+        const self = this.bot.entity;
+        const now = Date.now();
+        let best: { entity: Entity; score: number; distance: number } | null = null;
+
+        for (const entity of Object.values(this.bot.entities)) {
+            if (entity === self || !entity.isValid) continue;
+            if (entity.type !== "player" && entity.type !== "hostile" && entity.type !== "mob") continue;
+
+            const distance = entity.position.distanceTo(self.position);
+            const swung = now - (this.swings.get(entity.id) ?? 0) < SWING_WINDOW;
+            const ranged = RANGED_WEAPONS.includes(entity.heldItem?.name ?? "");
+
+            let score: number;
+            if (distance <= MELEE_RANGE && swung) {
+                score = 1000 - distance;
+            } else if (distance <= MELEE_RANGE && entity.type !== "mob") {
+                score = 500 - distance;
+            } else if (distance <= RANGED_RANGE && ranged) {
+                score = 100 - distance;
+            } else {
+                continue;
+            }
+
+            if (!best || score > best.score) {
+                best = { entity, score, distance };
+            }
+        }
+
+        if (!best) {
+            return {};
+        }
+
+        return {
+            attacker: entityName(best.entity),
+            attackerType: best.entity.type,
+            weapon: best.entity.heldItem?.name,
+            distance: Math.round(best.distance * 10) / 10,
+        };
+    }
+
+    private onEntityHurt(entity: Entity) {
+        if (entity === this.bot.entity) {
+            this.pendingHurt = { attribution: this.findAttacker(), time: Date.now() };
+        }
+    }
+
+    private onHealth() {
+        const health = this.bot.health;
+        const amount = this.lastHealth - health;
+        this.lastHealth = health;
+        if (amount <= 0) return;
+
+        // Health packets may arrive just before or after the hurt animation
+        const hurt = this.pendingHurt && Date.now() - this.pendingHurt.time < SWING_WINDOW ? this.pendingHurt : null;
+        const attribution = hurt?.attribution ?? this.findAttacker();
+        this.pendingHurt = null;
+        this.lastDamage = { attribution, time: Date.now() };
+
+        this.emit("botDamaged", {
+            amount: Math.round(amount * 10) / 10,
+            health: Math.round(health * 10) / 10,
+            ...attribution,
+            cause: attribution.attacker ? "attack" : this.bot.food === 0 ? "starvation" : "environment",
+        });
+    }
+
+    private onDeath() {
+        setTimeout(() => {
+            const message = this.deathMessage;
+            const damage = this.lastDamage && Date.now() - this.lastDamage.time < DAMAGE_WINDOW ? this.lastDamage.attribution : null;
+
+            this.emit("botDied", {
+                killer: message?.killer ?? damage?.attacker,
+                weapon: message?.weapon ?? damage?.weapon,
+                cause: message?.cause ?? (damage?.attacker ? "attack" : "unknown"),
+                source: message ? "chat" : damage ? "damage" : "none",
+            });
+
+            this.deathMessage = null;
+            this.lastDamage = null;
+        }, MERGE_DELAY);
+    }
+
+    private onEntityDead(entity: Entity) {
+        if (entity.type !== "player" || !entity.username) return;
+
+        const victim = entity.username;
+        const attack = this.attacks.get(victim);
+        if (!attack || Date.now() - attack.time > ATTACK_WINDOW) return;
+
+        // Prefer the server's death message, which names the real killer
+        setTimeout(() => {
+            if (this.wasReported(victim)) return;
+            this.reportKill({ victim, killer: this.bot.username, weapon: attack.weapon, cause: "attack.player" }, "entity");
+        }, MERGE_DELAY);
+    }
+
+    private onMessage(text: string, jsonMsg: ChatMessage) {
+        const args = (jsonMsg as unknown as { with?: ChatMessage[] }).with?.map((arg) => arg.toString()) ?? [];
+        const death = parseDeathMessage(jsonMsg.translate, args, text);
+        if (!death) return;
+
+        if (death.victim === this.bot.username) {
+            this.deathMessage = death;
+        } else if (death.killer === this.bot.username && !this.wasReported(death.victim)) {
+            this.reportKill(death, "chat");
+        }
+    }
+
+    private wasReported(victim: string): boolean {
+        const time = this.reportedKills.get(victim);
+        return time !== undefined && Date.now() - time < ATTACK_WINDOW;
+    }
+
+    private reportKill(death: DeathMessage, source: "chat" | "entity") {
+        this.reportedKills.set(death.victim, Date.now());
+        this.attacks.delete(death.victim);
+        this.emit("playerKilled", { victim: death.victim, weapon: death.weapon, cause: death.cause, source });
+    }
+}
@@ -0,0 +1,299 @@
+/**
+ * Text command language for the agent's LLM replies
+ * The model answers with free text containing exactly one command such as `!goTo(10, 64, -5)`,
+ * `!attack("Steve")` or `!say("hi")`. Arguments are positional and may be numbers, booleans,
+ * quoted strings or bare words, which are read as strings. `null` skips an optional argument, e.g. `!goTo(1, 64, 2, null, true)`.
+ */
+
+export type CommandParamType = "string" | "number" | "boolean";
+
+export type CommandValue = string | number | boolean;
+
+/**
+ * Outcome of running a command, shaped like the skills' SkillResult
+ */
+export interface CommandResult {
+    success: boolean;
+    reason: string;
+}
+
+/**
+ * Typed command parameter
+ */
+export interface CommandParam {
+    name: string;
+    type: CommandParamType;
+    optional?: boolean;
+}
+
+/**
+ * Command the agent can run
+ */
+export interface Command {
+    name: string;
+    description: string;
+    params: CommandParam[];
+    run(args: Record<string, CommandValue | undefined>): Promise<CommandResult>;
+}
+
+/**
+ * Command call found in a model reply, before validation
+ */
+export interface CommandCall {
+    name: string;
+    args: (CommandValue | null)[]; // null for a skipped argument
+}
+
+/**
+ * Result of parsing and validating a model reply
+ * `unknown` errors name a command that is not registered, `invalid` errors cover everything else.
+ */
+export type CommandParseResult =
+    | { ok: true; command: Command; args: Record<string, CommandValue | undefined>; call: string }
+    | { ok: false; kind: "unknown" | "invalid"; error: string };
+
+type ExtractResult = { ok: true; call: CommandCall; text: string } | { ok: false; error: string };
+
+const COMMAND_PATTERN = /!([A-Za-z_][A-Za-z0-9_]*)/;
+
+/**
+ * Extract the first command call from a model reply
+ * @param reply Raw model reply
+ * @returns The command call and its source text, or an error describing the syntax problem
+ */
+export function extractCommand(reply: string): ExtractResult {
+    const match = COMMAND_PATTERN.exec(reply);
+    if (!match) {
+        return { ok: false, error: "no command found, reply with one command such as !wait(3)" };
+    }
+
+    const name = match[1];
+    let cursor = match.index + match[0].length;
+    if (reply[cursor] !== "(") {
+        return { ok: true, call: { name, args: [] }, text: match[0] };
+    }
+
+    const args: (CommandValue | null)[] = [];
+    cursor++;
+
+    while (cursor < reply.length) {
+        while (/\s/.test(reply[cursor] ?? "")) cursor++;
+
+        if (reply[cursor] === ")" && args.length === 0) {
+            return { ok: true, call: { name, args }, text: reply.slice(match.index, cursor + 1) };
+        }
+
+        const token = readValue(reply, cursor);
+        if (!token.ok) {
+            return { ok: false, error: `!${name}: ${token.error}` };
+        }
+        args.push(token.value);
+        cursor = token.end;
+
+        while (/\s/.test(reply[cursor] ?? "")) cursor++;
+        if (reply[cursor] === ",") {
+            cursor++;
+        } else if (reply[cursor] === ")") {
+            return { ok: true, call: { name, args }, text: reply.slice(match.index, cursor + 1) };
+        } else {
+            return { ok: false, error: `!${name}: expected "," or ")" after argument ${args.length}` };
+        }
+    }
+
+    return { ok: false, error: `!${name}: missing closing ")"` };
+}
+
+/**
+ * Read one argument value starting at a position
+ */
+function readValue(text: string, start: number): { ok: true; value: CommandValue | null; end: number } | { ok: false; error: string } {
+    const quote = text[start];
+    if (quote === '"' || quote === "'") {
+        let value = "";
+        for (let i = start + 1; i < text.length; i++) {
+            const char = text[i];
+            if (char === "\\" && i + 1 < text.length) {
+                value += text[++i];
+            } else if (char === quote) {
+                return { ok: true, value, end: i + 1 };
+            } else {
+                value += char;
+            }
+        }
+        return { ok: false, error: "unterminated string" };
+    }
+
+    let end = start;
+    while (end < text.length && !/[,)\s]/.test(text[end])) end++;
+    const raw = text.slice(start, end);
+    if (!raw) {
+        return { ok: false, error: "missing argument" };
+    }
+
+    if (raw === "true" || raw === "false") {
+        return { ok: true, value: raw === "true", end };
+    }
+    if (raw === "null") {
+        return { ok: true, value: null, end };
+    }
+    const number = Number(raw);
+    return { ok: true, value: /^[-+]?(\d+\.?\d*|\.\d+)$/.test(raw) && Number.isFinite(number) ? number : raw, end };
+}
+
+/**
+ * Describe a command's signature, e.g. `!goTo(x: number, y: number, z: number)`
+ */
+function signature(command: Command): string {
+    const params = command.params.map((param) => `${param.name}${param.optional ? "?" : ""}: ${param.type}`).join(", ");
+    return `!${command.name}(${params})`;
+}
+
+/**
+ * Coerce an argument to a parameter type
+ * @returns The coerced value, or undefined if the argument does not fit the type
+ */
+function coerce(value: CommandValue, type: CommandParamType): CommandValue | undefined {
+    switch (type) {
+        case "string":
+            return String(value);
+        case "number":
+            if (typeof value === "number") return value;
+            return typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : undefined;
+        case "boolean":
+            if (typeof value === "boolean") return value;
+            return value === "true" ? true : value === "false" ? false : undefined;
+    }
+}
+
+/**
+ * Registry of the commands available to the model
+ */
+export class CommandRegistry {
+    private commands = new Map<string, Command>();
+
+    /**
+     * Register a command, replacing any command with the same name
+     * @param command The command to register
+     */
+    public register(command: Command): this {
+        this.commands.set(command.name, command);
+        return this;
+    }
+
+    public get(name: string): Command | undefined {
+        return this.commands.get(name);
+    }
+
+    public getNames(): string[] {
+        return [...this.commands.keys()];
+    }
+
+    /**
+     * Describe all commands for the prompt
+     * @returns One line per command, e.g. `- !say(message: string): Send a chat message`
+     */
+    public describe(): string {
+        return [...this.commands.values()].map((command) => `- ${signature(command)}: ${command.description}`).join("\n");
+    }
+
+    /**
+     * Parse a model reply and validate its command against the registry
+     * @param reply Raw model reply
+     * @returns The command with named, typed arguments, or an error to report back to the model
+     */
+    public parse(reply: string): CommandParseResult {
+        const extracted = extractCommand(reply);
+        if (!extracted.ok) {
+            return { ok: false, kind: "invalid", error: extracted.error };
+        }
+
+        const { name, args } = extracted.call;
+        const command = this.commands.get(name);
+        if (!command) {
+            return { ok: false, kind: "unknown", error: `unknown command !${name}, available: ${this.getNames().join(", ")}` };
+        }
+
+        const required = command.params.filter((param) => !param.optional).length;
+        if (args.length < required || args.length > command.params.length) {
+            const expected = required === command.params.length ? `${required}` : `${required} to ${command.params.length}`;
+            return {
+                ok: false,
+                kind: "invalid",
+                error: `!${name} takes ${expected} arguments but got ${args.length}, usage: ${signature(command)}`,
+            };
+        }
+
+        const named: Record<string, CommandValue | undefined> = {};
+        for (const [index, param] of command.params.entries()) {
+            const arg = args[index] ?? null;
+            if (arg === null) {
+                if (!param.optional) {
+                    return { ok: false, kind: "invalid", error: `!${name}: missing ${param.name}, usage: ${signature(command)}` };
+                }
+                named[param.name] = undefined;
+                continue;
+            }
+
+            const value = coerce(arg, param.type);
+            if (value === undefined) {
+                return {
+                    ok: false,
+                    kind: "invalid",
+                    error: `!${name}: ${param.name} must be a ${param.type}, got ${JSON.stringify(arg)}, usage: ${signature(command)}`,
+                };
+            }
+            named[param.name] = value;
+        }
+
+        return { ok: true, command, args: named, call: extracted.text };
+    }
+
+    /**
+     * Validate named arguments for a command, e.g. from an orchestrator task
+     * @param name Command name
+     * @param args Arguments keyed by parameter name
+     * @returns The command with typed arguments, or an error
+     */
+    public resolve(name: string, args: Record<string, unknown> = {}): CommandParseResult {
+        const command = this.commands.get(name);
+        if (!command) {
+            return { ok: false, kind: "unknown", error: `unknown command ${name}, available: ${this.getNames().join(", ")}` };
+        }
+
+        const unexpected = Object.keys(args).filter((key) => !command.params.some((param) => param.name === key));
+        if (unexpected.length) {
+            return {
+                ok: false,
+                kind: "invalid",
+                error: `${name}: unexpected arguments ${unexpected.join(", ")}, usage: ${signature(command)}`,
+            };
+        }
+
+        const named: Record<string, CommandValue | undefined> = {};
+        for (const param of command.params) {
+            const raw = args[param.name];
+            if (raw === undefined || raw === null) {
+                if (!param.optional) {
+                    return { ok: false, kind: "invalid", error: `${name}: missing ${param.name}, usage: ${signature(command)}` };
+                }
+                named[param.name] = undefined;
+                continue;
+            }
+
+            const value = ["string", "number", "boolean"].includes(typeof raw) ? coerce(raw as CommandValue, param.type) : undefined;
+            if (value === undefined) {
+                return {
+                    ok: false,
+                    kind: "invalid",
+                    error: `${name}: ${param.name} must be a ${param.type}, got ${JSON.stringify(raw)}, usage: ${signature(command)}`,
+                };
+            }
+            named[param.name] = value;
+        }
+
+        // Skipped optional arguments before the last given one render as null, which parse() reads back as skipped
+        const values = command.params.map((param) => named[param.name]);
+        while (values.length && values.at(-1) === undefined) values.pop();
+        return { ok: true, command, args: named, call: `!${name}(${values.map((value) => JSON.stringify(value ?? null)).join(", ")})` };
+    }
+}
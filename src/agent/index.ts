@@ -1,11 +1,26 @@
-import { BotConfig } from "@/config.ts";
+import Config, { BotConfig } from "@/config.ts";
 import { MCManager } from "./mc.ts";
-import { Bot } from "mineflayer";
-import { WorkerMessageType } from "@/worker/manager.ts";
-import { GameSentMessage } from "@/game/index.ts";
+import { Bot, EquipmentDestination } from "mineflayer";
+import { AgentTask, BotMetrics, WorkerMessageType } from "@/worker/manager.ts";
+import { GameSentMessage, RoleAssignment } from "@/game/index.ts";
+import { createProvider, LLMProvider } from "./llm/index.ts";
+import { CommandParseResult, CommandRegistry, CommandResult } from "./commands.ts";
+import { CombatTracker } from "./combat.ts";
+import { buildObservationPrompt, buildSystemPrompt } from "./prompt.ts";
+import { logger } from "@/utils/logger.ts";
+import * as skills from "./lib/skills.ts";
+import { injectContext, withSpan } from "@/utils/tracing.ts";
+
+const agentLogger = logger.withPrefix("Agent");
 
 const workerContext = self;
 
+// Number of recent action results and chat messages kept for the prompt
+const MAX_HISTORY = 10;
+const MAX_CHAT = 10;
+
+const EQUIPMENT_DESTINATIONS: EquipmentDestination[] = ["hand", "off-hand", "head", "torso", "legs", "feet"];
+
 /**
  * Agent class for Minecraft bot
  */
@@ -13,6 +28,13 @@ export class Agent {
     private botConfig: BotConfig;
     private mcManager: MCManager;
     private bot: Bot | null = null;
+    private llm: LLMProvider;
+    private commands: CommandRegistry;
+    private history: string[] = [];
+    private chatLog: string[] = [];
+    private role: RoleAssignment | null = null;
+    private combat: CombatTracker | null = null;
+    private activeTasks = 0;
 
     /**
      * Create a new Agent instance
@@ -21,36 +43,398 @@ export class Agent {
     constructor(botConfig: BotConfig) {
         this.botConfig = botConfig;
         this.mcManager = MCManager.getInstance();
+        this.llm = createProvider(Config.settings.llm);
+        this.commands = this.createCommands();
     }
 
     public async start(): Promise<void> {
         const botName = this.botConfig.name;
 
         this.bot = await this.mcManager.initBot(botName);
+        this.listenChat(this.bot);
+        this.combat = new CombatTracker(this.bot, (type, data) => this.sendMessage(type, data));
+        agentLogger.info(`Agent ${botName} using LLM provider: ${this.llm.name}`);
     }
 
     public stop() {
         this.bot?.end();
     }
 
+    /**
+     * Stop moving while the match is paused, the bot stays in the game
+     */
+    public pause() {
+        if (this.bot) {
+            skills.stopMoving();
+        }
+    }
+
+    /**
+     * Replace the bot configuration, the identity and prompt apply from the next turn on
+     * @param botConfig The new bot configuration
+     */
+    public updateConfig(botConfig: BotConfig) {
+        this.botConfig = botConfig;
+    }
+
+    /**
+     * Assign the bot's secret role for the current match
+     * The role is folded into the system prompt from the next turn on.
+     * @param role The role assignment, or null to clear it
+     */
+    public assignRole(role: RoleAssignment | null) {
+        this.role = role;
+        this.history = [];
+        agentLogger.info(role ? `Agent ${this.botConfig.name} assigned a role` : `Agent ${this.botConfig.name} role cleared`);
+    }
+
+    /**
+     * Say something in public chat, or whisper it to a player
+     * @param message Chat message
+     * @param to Player to whisper to, or undefined for public chat
+     */
+    public say(message: string, to?: string) {
+        const bot = this.mcManager.getBot();
+        if (to) {
+            bot.whisper(to, message);
+        } else {
+            bot.chat(message);
+        }
+    }
+
+    /**
+     * Forward chat and whispers heard by the bot to the orchestrator and the prompt
+     */
+    private listenChat(bot: Bot) {
+        const onMessage = (channel: "chat" | "whisper") => (username: string, message: string) => {
+            if (username === bot.username) {
+                return;
+            }
+
+            this.chatLog.push(channel === "whisper" ? `${username} (whisper): ${message}` : `${username}: ${message}`);
+            if (this.chatLog.length > MAX_CHAT) {
+                this.chatLog.shift();
+            }
+            this.sendMessage("botChat", { channel, username, message });
+        };
+
+        bot.on("chat", onMessage("chat"));
+        bot.on("whisper", onMessage("whisper"));
+    }
+
+    /**
+     * Run a task sent by the orchestrator
+     * The LLM loop pauses while tasks run. Commands cannot be interrupted half-way, so on cancellation
+     * movement is stopped and the task settles right away, while the loop stays paused until the command has finished.
+     * @param task The task to run
+     * @param signal Aborted when the task is cancelled or times out
+     * @param progress Callback reporting progress messages
+     * @returns The task's result
+     * @throws If the task is invalid, fails or is cancelled
+     */
+    public async runTask(task: AgentTask, signal: AbortSignal, progress: (message: string) => void): Promise<unknown> {
+        if (task.type === "roleAssign") {
+            this.assignRole((task.args?.role ?? null) as RoleAssignment | null);
+            return "role assigned";
+        }
+
+        const parsed = task.type === "command"
+            ? this.commands.parse(String(task.args?.text ?? ""))
+            : this.commands.resolve(task.type, task.args);
+        if (!parsed.ok) {
+            throw new Error(parsed.error);
+        }
+
+        if (signal.aborted) {
+            throw signal.reason;
+        }
+
+        // Counted until the command settles, a cancelled command may still be acting
+        this.activeTasks++;
+        progress(`running ${parsed.call}`);
+        const running = this.runCommand(parsed).finally(() => this.activeTasks--);
+        const result = await new Promise<CommandResult>((resolve, reject) => {
+            const onAbort = () => {
+                skills.stopMoving();
+                reject(signal.reason);
+            };
+            signal.addEventListener("abort", onAbort, { once: true });
+            running.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+
+        this.remember(`${parsed.call} (orchestrator task) -> ${result.success ? "ok" : "failed"}: ${result.reason}`);
+        if (!result.success) {
+            throw new Error(result.reason);
+        }
+        return result.reason;
+    }
+
+    /**
+     * Run one observe-think-act iteration
+     * Thinking is skipped while orchestrator tasks are running.
+     */
     public async mainLoop() {
-        this.syncInfo();
+        const startedAt = performance.now();
+        await withSpan("agent loop", { "bot.name": this.botConfig.name }, async (span) => {
+            const hudStr = this.observe();
+
+            const thinking = hudStr !== null && this.activeTasks === 0;
+            span.setAttribute("agent.thinking", thinking);
+            if (thinking) {
+                const reply = await this.think(hudStr);
+                if (reply !== null) {
+                    await this.act(reply);
+                }
+            }
+        });
+        this.reportMetrics(performance.now() - startedAt);
 
         await new Promise((resolve) => setTimeout(resolve, 3000));
     }
 
-    private syncInfo() {
-        this.syncHUDInfo();
+    /**
+     * Observe the world and sync the HUD to the orchestrator
+     * @returns The HUD string, or null if the bot is not ready
+     */
+    private observe(): string | null {
+        const hudInfo = this.mcManager.headsUpDisplay();
+        if (!hudInfo) {
+            return null;
+        }
+
+        this.syncInfo(hudInfo.hudStr);
+        return hudInfo.hudStr;
     }
 
-    private syncHUDInfo() {
-        const hudInfo = this.mcManager.headsUpDisplay();
+    /**
+     * Ask the LLM for the next command
+     * @param hudStr Current heads-up display
+     * @returns The raw reply, or null if the LLM request failed
+     */
+    private async think(hudStr: string): Promise<string | null> {
+        try {
+            const reply = await withSpan("agent think", {}, () =>
+                this.llm.complete([
+                    { role: "system", content: buildSystemPrompt(this.botConfig, this.commands.describe(), this.role) },
+                    { role: "user", content: buildObservationPrompt(hudStr, this.history, this.chatLog) },
+                ]));
+            agentLogger.debug(`LLM reply: ${reply}`);
+            return reply;
+        } catch (error) {
+            agentLogger.warn(`LLM request failed: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
 
-        hudInfo && this.sendMessage("botHUDSync", {
-            hudStr: hudInfo.hudStr,
+    /**
+     * Parse the reply and run its command
+     * Invalid commands are reported back to the model, unknown ones to the orchestrator as well.
+     * @param reply Raw LLM reply
+     */
+    private async act(reply: string): Promise<void> {
+        const parsed = this.commands.parse(reply);
+
+        if (!parsed.ok) {
+            this.remember(`error: ${parsed.error}`);
+            if (parsed.kind === "unknown") {
+                this.sendMessage("botCommandError", { error: parsed.error, reply: reply.slice(0, 500) });
+            }
+            return;
+        }
+
+        const result = await this.runCommand(parsed);
+        this.remember(`${parsed.call} -> ${result.success ? "ok" : "failed"}: ${result.reason}`);
+    }
+
+    /**
+     * Run a parsed command inside its own span
+     */
+    private runCommand(parsed: Extract<CommandParseResult, { ok: true }>): Promise<CommandResult> {
+        return withSpan(`command ${parsed.command.name}`, { "command.call": parsed.call }, async (span) => {
+            const result = await parsed.command.run(parsed.args);
+            span.setAttribute("command.success", result.success);
+            return result;
         });
     }
 
+    /**
+     * Record an action result for the next prompt
+     */
+    private remember(entry: string) {
+        agentLogger.debug(`Action: ${entry}`);
+        this.history.push(entry);
+        if (this.history.length > MAX_HISTORY) {
+            this.history.shift();
+        }
+    }
+
+    /**
+     * Create the commands available to the LLM
+     * Arguments arrive validated against each command's parameter types.
+     */
+    private createCommands(): CommandRegistry {
+        const num = (value: unknown, fallback: number) => value === undefined ? fallback : Number(value);
+        const str = (value: unknown) => String(value ?? "");
+
+        return new CommandRegistry()
+            .register({
+                name: "say",
+                description: "Send a message in the public chat",
+                params: [{ name: "message", type: "string" }],
+                run: (args) => {
+                    const message = str(args.message).trim();
+                    if (!message) {
+                        return Promise.resolve({ success: false, reason: "empty message" });
+                    }
+                    this.say(message);
+                    return Promise.resolve({ success: true, reason: "sent" });
+                },
+            })
+            .register({
+                name: "whisper",
+                description: "Send a private message to a player",
+                params: [{ name: "player", type: "string" }, { name: "message", type: "string" }],
+                run: (args) => {
+                    const message = str(args.message).trim();
+                    if (!message) {
+                        return Promise.resolve({ success: false, reason: "empty message" });
+                    }
+                    this.say(message, str(args.player));
+                    return Promise.resolve({ success: true, reason: `whispered to ${str(args.player)}` });
+                },
+            })
+            .register({
+                name: "wait",
+                description: "Do nothing for a few seconds (at most 30)",
+                params: [{ name: "seconds", type: "number", optional: true }],
+                run: async (args) => {
+                    const seconds = Math.min(Math.max(num(args.seconds, 3), 0), 30);
+                    await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+                    return { success: true, reason: `waited ${seconds}s` };
+                },
+            })
+            .register({
+                name: "goTo",
+                description: "Walk to the given coordinates, optionally breaking or placing blocks on the way",
+                params: [
+                    { name: "x", type: "number" },
+                    { name: "y", type: "number" },
+                    { name: "z", type: "number" },
+                    { name: "allowBreak", type: "boolean", optional: true },
+                    { name: "allowPlace", type: "boolean", optional: true },
+                ],
+                run: (args) =>
+                    skills.goTo(num(args.x, 0), num(args.y, 0), num(args.z, 0), 1, {
+                        allowBreak: args.allowBreak === true,
+                        allowPlace: args.allowPlace === true,
+                    }),
+            })
+            .register({
+                name: "approach",
+                description: "Walk up to a player or mob",
+                params: [{ name: "name", type: "string" }],
+                run: (args) => skills.goToEntity(str(args.name)),
+            })
+            .register({
+                name: "follow",
+                description: "Follow a player or mob for some seconds (default 30, at most 120)",
+                params: [{ name: "name", type: "string" }, { name: "seconds", type: "number", optional: true }],
+                run: (args) => skills.followEntity(str(args.name), 3, Math.min(num(args.seconds, 30), 120)),
+            })
+            .register({
+                name: "stop",
+                description: "Stop walking or following",
+                params: [],
+                run: () => skills.stopMoving(),
+            })
+            .register({
+                name: "lookAt",
+                description: "Turn to face a player or mob",
+                params: [{ name: "name", type: "string" }],
+                run: (args) => skills.lookAtEntity(str(args.name)),
+            })
+            .register({
+                name: "dig",
+                description: "Break the block at the given coordinates",
+                params: [{ name: "x", type: "number" }, { name: "y", type: "number" }, { name: "z", type: "number" }],
+                run: (args) => skills.digBlock(num(args.x, 0), num(args.y, 0), num(args.z, 0)),
+            })
+            .register({
+                name: "place",
+                description: "Place a block from your inventory at the given coordinates",
+                params: [
+                    { name: "item", type: "string" },
+                    { name: "x", type: "number" },
+                    { name: "y", type: "number" },
+                    { name: "z", type: "number" },
+                ],
+                run: (args) => skills.placeBlock(str(args.item), num(args.x, 0), num(args.y, 0), num(args.z, 0)),
+            })
+            .register({
+                name: "equip",
+                description: "Equip an item to hand (default), off-hand or an armor slot (head, torso, legs, feet)",
+                params: [{ name: "item", type: "string" }, { name: "destination", type: "string", optional: true }],
+                run: (args) => {
+                    const destination = str(args.destination ?? "hand") as EquipmentDestination;
+                    if (!EQUIPMENT_DESTINATIONS.includes(destination)) {
+                        return Promise.resolve({
+                            success: false,
+                            reason: `unknown destination ${destination}, use one of ${EQUIPMENT_DESTINATIONS.join(", ")}`,
+                        });
+                    }
+                    return skills.equipItem(str(args.item), destination);
+                },
+            })
+            .register({
+                name: "attack",
+                description: "Hit a nearby player or mob once",
+                params: [{ name: "name", type: "string" }],
+                run: async (args) => {
+                    const result = await skills.attackEntity(str(args.name));
+                    if (result.success) {
+                        this.combat?.recordAttack(str(args.name));
+                    }
+                    return result;
+                },
+            })
+            .register({
+                name: "use",
+                description: "Use an item, e.g. eat food or draw a bow, holding it for some seconds (at most 30)",
+                params: [{ name: "item", type: "string", optional: true }, { name: "seconds", type: "number", optional: true }],
+                run: (args) =>
+                    skills.useItem(args.item === undefined ? undefined : str(args.item), Math.min(Math.max(num(args.seconds, 0), 0), 30)),
+            })
+            .register({
+                name: "drop",
+                description: "Drop items from your inventory, all of them if count is omitted",
+                params: [{ name: "item", type: "string" }, { name: "count", type: "number", optional: true }],
+                run: (args) => skills.dropItem(str(args.item), args.count === undefined ? undefined : num(args.count, 0)),
+            });
+    }
+
+    private syncInfo(hudStr: string) {
+        this.syncHUDInfo(hudStr);
+    }
+
+    private syncHUDInfo(hudStr: string) {
+        this.sendMessage("botHUDSync", {
+            hudStr,
+        });
+    }
+
+    /**
+     * Report the bot's vitals and the loop duration to the worker manager
+     * @param loopDuration Milliseconds spent observing, thinking and acting
+     */
+    private reportMetrics(loopDuration: number) {
+        if (!this.bot?.entity) {
+            return;
+        }
+
+        const data: BotMetrics = { health: this.bot.health, food: this.bot.food, loopDuration };
+        workerContext.postMessage({ type: WorkerMessageType.METRICS, data });
+    }
+
     public sendMessage(type: string, data: GameSentMessage["data"]) {
         workerContext.postMessage({
             type: WorkerMessageType.SEND,
@@ -58,6 +442,7 @@ export class Agent {
                 type,
                 data,
             },
+            traceContext: injectContext(),
         });
     }
 }
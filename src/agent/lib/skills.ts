@@ -0,0 +1,300 @@
+import { Vec3 } from "vec3";
+import { EquipmentDestination } from "mineflayer";
+import mcManager from "../mc.ts";
+import * as world from "./world.ts";
+import { GoalEntity, GoalNear, NavigationOptions } from "../navigation/index.ts";
+
+/**
+ * Skill library for the Minecraft bot
+ * This module wraps raw mineflayer calls into typed actions that never throw.
+ * Every skill resolves to a SkillResult describing whether it succeeded and why.
+ */
+
+/**
+ * Structured result of a skill
+ */
+export interface SkillResult {
+    success: boolean;
+    reason: string;
+}
+
+// Maximum distance at which the bot can reach blocks and entities
+const REACH_DISTANCE = 4.5;
+const ATTACK_DISTANCE = 3.5;
+
+function ok(reason: string): SkillResult {
+    return { success: true, reason };
+}
+
+function fail(reason: string): SkillResult {
+    return { success: false, reason };
+}
+
+/**
+ * Run a skill body, converting thrown errors into a failed result
+ */
+async function runSkill(name: string, body: () => Promise<SkillResult>): Promise<SkillResult> {
+    try {
+        return await body();
+    } catch (error) {
+        return fail(`${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Find an inventory item by name
+ */
+function findInventoryItem(itemName: string) {
+    const bot = mcManager.getBot();
+    return bot.inventory.items().find((item) => item.name === itemName) ?? null;
+}
+
+/**
+ * Walk to a position using the navigator
+ * @param {number} x - Target x coordinate
+ * @param {number} y - Target y coordinate
+ * @param {number} z - Target z coordinate
+ * @param {number} range - Distance at which the target counts as reached (default: 1 block)
+ * @param {NavigationOptions} options - Navigation options, e.g. whether to break or place blocks on the way
+ */
+export function goTo(x: number, y: number, z: number, range = 1, options: NavigationOptions = {}): Promise<SkillResult> {
+    return runSkill("goTo", async () => {
+        if (![x, y, z].every(Number.isFinite)) {
+            return fail(`invalid coordinates: ${x}, ${y}, ${z}`);
+        }
+
+        const result = await mcManager.getNavigator().goto(new GoalNear(x, y, z, range), options);
+        return result.success ? ok(`reached ${x}, ${y}, ${z}`) : fail(`could not reach ${x}, ${y}, ${z}: ${result.reason}`);
+    });
+}
+
+/**
+ * Walk until within a distance of an entity
+ * @param {string} name - Player username or entity name
+ * @param {number} range - Distance at which the entity counts as reached (default: 2 blocks)
+ * @param {NavigationOptions} options - Navigation options
+ */
+export function goToEntity(name: string, range = 2, options: NavigationOptions = {}): Promise<SkillResult> {
+    return runSkill("goToEntity", async () => {
+        const entity = world.getEntityByName(name, 64);
+        if (!entity) {
+            return fail(`no entity named ${name} nearby`);
+        }
+
+        const result = await mcManager.getNavigator().goto(new GoalEntity(entity, range), options);
+        return result.success ? ok(`reached ${name}`) : fail(`could not reach ${name}: ${result.reason}`);
+    });
+}
+
+/**
+ * Follow an entity for a while, staying within a distance of it
+ * @param {string} name - Player username or entity name
+ * @param {number} range - Distance to keep from the entity (default: 3 blocks)
+ * @param {number} seconds - How long to follow (default: 30 seconds)
+ */
+export function followEntity(name: string, range = 3, seconds = 30): Promise<SkillResult> {
+    return runSkill("follow", async () => {
+        const entity = world.getEntityByName(name, 64);
+        if (!entity) {
+            return fail(`no entity named ${name} nearby`);
+        }
+
+        const result = await mcManager.getNavigator().goto(new GoalEntity(entity, range, true), { timeout: seconds * 1000 });
+        return result.success ? ok(`followed ${name} for ${seconds}s`) : fail(`stopped following ${name}: ${result.reason}`);
+    });
+}
+
+/**
+ * Stop any navigation in progress
+ */
+export function stopMoving(): Promise<SkillResult> {
+    return runSkill("stop", () => {
+        mcManager.getNavigator().stop();
+        return Promise.resolve(ok("stopped"));
+    });
+}
+
+/**
+ * Turn to face an entity
+ * @param {string} name - Player username or entity name
+ */
+export function lookAtEntity(name: string): Promise<SkillResult> {
+    return runSkill("lookAt", async () => {
+        const bot = mcManager.getBot();
+        const entity = world.getEntityByName(name);
+        if (!entity) {
+            return fail(`no entity named ${name} nearby`);
+        }
+
+        await bot.lookAt(entity.position.offset(0, entity.height * 0.85, 0));
+        return ok(`looking at ${name}`);
+    });
+}
+
+/**
+ * Dig the block at a position
+ * @param {number} x - Block x coordinate
+ * @param {number} y - Block y coordinate
+ * @param {number} z - Block z coordinate
+ */
+export function digBlock(x: number, y: number, z: number): Promise<SkillResult> {
+    return runSkill("dig", async () => {
+        const bot = mcManager.getBot();
+        const block = bot.blockAt(new Vec3(x, y, z));
+        if (!block || block.name === "air" || block.name === "cave_air" || block.name === "void_air") {
+            return fail(`no block at ${x}, ${y}, ${z}`);
+        }
+        if (!bot.canDigBlock(block)) {
+            return fail(`cannot dig ${block.name} at ${x}, ${y}, ${z}: out of reach or unbreakable`);
+        }
+
+        await bot.dig(block);
+        return ok(`dug ${block.name} at ${x}, ${y}, ${z}`);
+    });
+}
+
+/**
+ * Place a block from the inventory at a position
+ * The position must be empty and next to an existing solid block.
+ * @param {string} itemName - Name of the block item to place
+ * @param {number} x - Target x coordinate
+ * @param {number} y - Target y coordinate
+ * @param {number} z - Target z coordinate
+ */
+export function placeBlock(itemName: string, x: number, y: number, z: number): Promise<SkillResult> {
+    return runSkill("place", async () => {
+        const bot = mcManager.getBot();
+        const target = new Vec3(x, y, z);
+        const existing = bot.blockAt(target);
+        if (existing && existing.boundingBox !== "empty") {
+            return fail(`position ${x}, ${y}, ${z} is occupied by ${existing.name}`);
+        }
+        if (bot.entity.position.distanceTo(target) > REACH_DISTANCE) {
+            return fail(`position ${x}, ${y}, ${z} is out of reach`);
+        }
+
+        const item = findInventoryItem(itemName);
+        if (!item) {
+            return fail(`no ${itemName} in inventory`);
+        }
+
+        const faces = [
+            new Vec3(0, -1, 0),
+            new Vec3(0, 1, 0),
+            new Vec3(-1, 0, 0),
+            new Vec3(1, 0, 0),
+            new Vec3(0, 0, -1),
+            new Vec3(0, 0, 1),
+        ];
+        for (const face of faces) {
+            const reference = bot.blockAt(target.plus(face));
+            if (reference && reference.boundingBox === "block") {
+                await bot.equip(item, "hand");
+                await bot.placeBlock(reference, face.scaled(-1));
+                return ok(`placed ${itemName} at ${x}, ${y}, ${z}`);
+            }
+        }
+
+        return fail(`no solid block next to ${x}, ${y}, ${z} to place against`);
+    });
+}
+
+/**
+ * Equip an inventory item
+ * @param {string} itemName - Name of the item to equip
+ * @param {EquipmentDestination} destination - Slot to equip into (default: hand)
+ */
+export function equipItem(itemName: string, destination: EquipmentDestination = "hand"): Promise<SkillResult> {
+    return runSkill("equip", async () => {
+        const bot = mcManager.getBot();
+        const item = findInventoryItem(itemName);
+        if (!item) {
+            return fail(`no ${itemName} in inventory`);
+        }
+
+        await bot.equip(item, destination);
+        return ok(`equipped ${itemName} to ${destination}`);
+    });
+}
+
+/**
+ * Attack an entity once
+ * @param {string} name - Player username or entity name
+ */
+export function attackEntity(name: string): Promise<SkillResult> {
+    return runSkill("attack", async () => {
+        const bot = mcManager.getBot();
+        const entity = world.getEntityByName(name);
+        if (!entity) {
+            return fail(`no entity named ${name} nearby`);
+        }
+
+        const distance = entity.position.distanceTo(bot.entity.position);
+        if (distance > ATTACK_DISTANCE) {
+            return fail(`${name} is ${distance.toFixed(1)} blocks away, too far to attack`);
+        }
+
+        await bot.lookAt(entity.position.offset(0, entity.height * 0.85, 0), true);
+        bot.attack(entity);
+        return ok(`attacked ${name}`);
+    });
+}
+
+/**
+ * Use (right click) the held item, optionally equipping it first
+ * @param {string} itemName - Item to equip before use, or undefined to use the held item
+ * @param {number} holdSeconds - How long to keep using the item, e.g. to eat or draw a bow (default: 0)
+ * @param {boolean} offHand - Use the off hand instead of the main hand
+ */
+export function useItem(itemName?: string, holdSeconds = 0, offHand = false): Promise<SkillResult> {
+    return runSkill("use", async () => {
+        const bot = mcManager.getBot();
+        if (itemName) {
+            const item = findInventoryItem(itemName);
+            if (!item) {
+                return fail(`no ${itemName} in inventory`);
+            }
+            await bot.equip(item, offHand ? "off-hand" : "hand");
+        }
+
+        const used = itemName ?? bot.heldItem?.name;
+        if (!used) {
+            return fail("nothing in hand to use");
+        }
+
+        bot.activateItem(offHand);
+        if (holdSeconds > 0) {
+            await sleep(holdSeconds * 1000);
+            bot.deactivateItem();
+        }
+        return ok(`used ${used}`);
+    });
+}
+
+/**
+ * Drop items from the inventory
+ * @param {string} itemName - Name of the item to drop
+ * @param {number} count - Number of items to drop, or undefined to drop all of them
+ */
+export function dropItem(itemName: string, count?: number): Promise<SkillResult> {
+    return runSkill("drop", async () => {
+        const bot = mcManager.getBot();
+        const items = bot.inventory.items().filter((item) => item.name === itemName);
+        if (!items.length) {
+            return fail(`no ${itemName} in inventory`);
+        }
+
+        const available = items.reduce((total, item) => total + item.count, 0);
+        const amount = count === undefined ? available : Math.min(count, available);
+        if (amount <= 0) {
+            return fail(`invalid count: ${count}`);
+        }
+
+        await bot.toss(items[0].type, null, amount);
+        return ok(`dropped ${amount} ${itemName}`);
+    });
+}
@@ -116,3 +116,25 @@ export function getNearbyEntityTypes() {
     const mobs = getNearbyEntities();
     return [...new Set(mobs.map((mob) => mob.name).filter((name): name is string => name !== undefined))];
 }
+
+/**
+ * Find an entity by player username or mob name
+ * Players are matched by username first, then the nearest entity with a matching name is returned.
+ * @param {string} name - Player username or entity name (e.g. "Steve", "zombie")
+ * @param {number} maxDistance - Maximum distance to search (default: 32 blocks)
+ * @returns {Entity | null} The matching entity, or null if none is in range
+ * @throws {Error} If the bot is not initialized
+ */
+export function getEntityByName(name: string, maxDistance = 32) {
+    const bot = mcManager.getBot();
+    const target = name.toLowerCase();
+
+    const player = Object.values(bot.players).find((p) => p.username.toLowerCase() === target);
+    if (player?.entity && player.entity.position.distanceTo(bot.entity.position) <= maxDistance) {
+        return player.entity;
+    }
+
+    return getNearbyEntities(maxDistance).find((entity) =>
+        entity !== bot.entity && (entity.username?.toLowerCase() === target || entity.name?.toLowerCase() === target)
+    ) ?? null;
+}
@@ -0,0 +1,40 @@
+import { LLMSettings } from "@/config.ts";
+import { OpenAIProvider } from "./openai.ts";
+import { ScriptedProvider } from "./scripted.ts";
+
+/**
+ * Chat message exchanged with an LLM provider
+ */
+export interface ChatMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+/**
+ * LLM provider interface
+ * Providers turn a conversation into a single text completion.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    complete(messages: ChatMessage[]): Promise<string>;
+}
+
+/**
+ * Create an LLM provider from settings
+ * Falls back to the scripted provider when no LLM is configured, so bots can run offline.
+ * @param settings LLM settings from settings.jsonc
+ * @returns The configured provider
+ */
+export function createProvider(settings?: LLMSettings): LLMProvider {
+    switch (settings?.provider) {
+        case "openai":
+            return new OpenAIProvider(settings);
+        case "scripted":
+        case undefined:
+            return new ScriptedProvider(settings?.script);
+        default:
+            throw new Error(`Unsupported LLM provider: ${settings?.provider}`);
+    }
+}
+
+export { OpenAIProvider, ScriptedProvider };
@@ -0,0 +1,68 @@
+import { LLMSettings } from "@/config.ts";
+import { ChatMessage, LLMProvider } from "./index.ts";
+
+/**
+ * LLM provider for OpenAI-compatible chat completion APIs
+ * Works with OpenAI as well as local servers exposing the same HTTP interface (vLLM, Ollama, LM Studio, ...).
+ */
+export class OpenAIProvider implements LLMProvider {
+    public readonly name = "openai";
+    private baseUrl: string;
+    private model: string;
+    private apiKey: string | undefined;
+    private temperature: number;
+    private maxTokens: number;
+    private timeout: number;
+
+    /**
+     * Create a new OpenAI-compatible provider
+     * @param settings LLM settings from settings.jsonc
+     */
+    constructor(settings: LLMSettings) {
+        this.baseUrl = (settings.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "");
+        this.model = settings.model || "gpt-4o-mini";
+        this.apiKey = settings.apiKey || Deno.env.get(settings.apiKeyEnv || "OPENAI_API_KEY");
+        this.temperature = settings.temperature ?? 0.7;
+        this.maxTokens = settings.maxTokens ?? 512;
+        this.timeout = settings.timeout ?? 30000;
+    }
+
+    /**
+     * Request a chat completion
+     * @param messages Conversation to complete
+     * @returns The assistant reply text
+     */
+    public async complete(messages: ChatMessage[]): Promise<string> {
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+        };
+        if (this.apiKey) {
+            headers["Authorization"] = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages,
+                temperature: this.temperature,
+                max_tokens: this.maxTokens,
+            }),
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`LLM request failed with status ${response.status}: ${errorText}`);
+        }
+
+        const result = await response.json();
+        const content = result?.choices?.[0]?.message?.content;
+        if (typeof content !== "string") {
+            throw new Error("LLM response missing message content");
+        }
+
+        return content;
+    }
+}
@@ -0,0 +1,32 @@
+import { ChatMessage, LLMProvider } from "./index.ts";
+
+const DEFAULT_SCRIPT = ["Nothing to do yet. !wait(3)"];
+
+/**
+ * Deterministic LLM provider that replays a fixed script
+ * Useful for offline development and tests: replies cycle through the script in order.
+ */
+export class ScriptedProvider implements LLMProvider {
+    public readonly name = "scripted";
+    private script: string[];
+    private cursor = 0;
+
+    /**
+     * Create a new scripted provider
+     * @param script Replies to return, in order
+     */
+    constructor(script: string[] = DEFAULT_SCRIPT) {
+        this.script = script.length ? script : DEFAULT_SCRIPT;
+    }
+
+    /**
+     * Return the next scripted reply
+     * @param _messages Ignored, the script does not depend on the conversation
+     * @returns The next reply
+     */
+    public complete(_messages: ChatMessage[]): Promise<string> {
+        const reply = this.script[this.cursor % this.script.length];
+        this.cursor++;
+        return Promise.resolve(reply);
+    }
+}
@@ -1,8 +1,11 @@
 import { Bot, createBot } from "mineflayer";
 import minecraftData from "minecraft-data";
 import Config from "@/config.ts";
-import logger from "./lib/logger.ts";
+import { logger } from "@/utils/logger.ts";
 import * as world from "./lib/world.ts";
+import { Navigator } from "./navigation/index.ts";
+
+const mcLogger = logger.withPrefix("MC Manager");
 
 interface HUD {
     position: string;
@@ -28,6 +31,7 @@ export class MCManager {
     private static instance: MCManager | null = null;
     private bot: Bot | null = null;
     private mcData: minecraftData.IndexedData | null = null;
+    private navigator: Navigator | null = null;
 
     /**
      * Private constructor to enforce singleton pattern
@@ -63,22 +67,25 @@ export class MCManager {
             // Wait for spawn event to initialize minecraft-data
             this.bot.once("spawn", () => {
                 this.mcData = minecraftData(this.bot!.version);
+                this.navigator = new Navigator(this.bot!);
 
                 resolve(this.bot!);
             });
 
             // Add basic error handling
             this.bot.on("error", (err: Error) => {
-                logger.error("Bot error:", err);
+                mcLogger.error("Bot error:", err);
                 reject(err);
             });
 
             this.bot.on("kicked", (reason: string) => {
-                logger.info("Bot was kicked from the server for: " + reason);
+                mcLogger.info("Bot was kicked from the server for: " + reason);
             });
 
             this.bot.on("end", () => {
-                logger.info("Bot connection ended");
+                mcLogger.info("Bot connection ended");
+                this.navigator?.stop();
+                this.navigator = null;
                 this.bot = null;
             });
         });
@@ -223,6 +230,16 @@ export class MCManager {
         return this.mcData as minecraftData.IndexedData;
     }
 
+    /**
+     * Get the navigator for the current bot
+     * @returns The navigator
+     * @throws Error if bot is not initialized
+     */
+    public getNavigator(): Navigator {
+        this.checkInitialized();
+        return this.navigator as Navigator;
+    }
+
     public getBlockId(blockName: string) {
         const block = this.getMcData().blocksByName[blockName];
         return block ? block.id : null;
@@ -0,0 +1,199 @@
+import { Goal } from "./goals.ts";
+import { Move, Movements, Position } from "./movements.ts";
+
+/**
+ * A* path search over block positions
+ */
+
+export type PathStatus = "success" | "partial" | "noPath" | "timeout";
+
+/**
+ * Result of a path search
+ * For partial and timeout results, the path leads to the explored node closest to the goal.
+ */
+export interface PathResult {
+    status: PathStatus;
+    path: Move[];
+    cost: number;
+    visitedNodes: number;
+}
+
+export interface SearchOptions {
+    maxNodes: number;
+    timeout: number;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+    maxNodes: 20000,
+    timeout: 2000,
+};
+
+interface PathNode {
+    key: string;
+    position: Position;
+    g: number;
+    f: number;
+    h: number;
+    parent: PathNode | null;
+    move: Move | null;
+    heapIndex: number;
+    closed: boolean;
+}
+
+/**
+ * Binary min-heap keyed on the node's f score, with decrease-key support
+ */
+class NodeHeap {
+    private items: PathNode[] = [];
+
+    public get size(): number {
+        return this.items.length;
+    }
+
+    public push(node: PathNode): void {
+        node.heapIndex = this.items.length;
+        this.items.push(node);
+        this.bubbleUp(node.heapIndex);
+    }
+
+    public pop(): PathNode | undefined {
+        const top = this.items[0];
+        const last = this.items.pop();
+        if (top !== last && last) {
+            this.items[0] = last;
+            last.heapIndex = 0;
+            this.sinkDown(0);
+        }
+        return top;
+    }
+
+    public update(node: PathNode): void {
+        this.bubbleUp(node.heapIndex);
+    }
+
+    private swap(a: number, b: number): void {
+        [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+        this.items[a].heapIndex = a;
+        this.items[b].heapIndex = b;
+    }
+
+    private bubbleUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.items[parent].f <= this.items[index].f) break;
+            this.swap(parent, index);
+            index = parent;
+        }
+    }
+
+    private sinkDown(index: number): void {
+        const length = this.items.length;
+        while (true) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let smallest = index;
+            if (left < length && this.items[left].f < this.items[smallest].f) smallest = left;
+            if (right < length && this.items[right].f < this.items[smallest].f) smallest = right;
+            if (smallest === index) break;
+            this.swap(smallest, index);
+            index = smallest;
+        }
+    }
+}
+
+function keyOf(position: Position): string {
+    return `${position.x},${position.y},${position.z}`;
+}
+
+function reconstruct(node: PathNode): Move[] {
+    const path: Move[] = [];
+    let current: PathNode | null = node;
+    while (current && current.move) {
+        path.push(current.move);
+        current = current.parent;
+    }
+    return path.reverse();
+}
+
+/**
+ * Find a path from a feet position to a goal
+ * @param start Feet block position of the bot
+ * @param goal Goal to reach
+ * @param movements Movement model used to expand nodes
+ * @param options Search limits
+ * @returns The search result
+ */
+export function findPath(start: Position, goal: Goal, movements: Movements, options: Partial<SearchOptions> = {}): PathResult {
+    const { maxNodes, timeout } = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+    const deadline = Date.now() + timeout;
+
+    const startH = goal.heuristic(start.x, start.y, start.z);
+    const startNode: PathNode = {
+        key: keyOf(start),
+        position: start,
+        g: 0,
+        h: startH,
+        f: startH,
+        parent: null,
+        move: null,
+        heapIndex: 0,
+        closed: false,
+    };
+
+    const nodes = new Map<string, PathNode>([[startNode.key, startNode]]);
+    const open = new NodeHeap();
+    open.push(startNode);
+    let best = startNode;
+    let visitedNodes = 0;
+
+    while (open.size > 0) {
+        const current = open.pop()!;
+        current.closed = true;
+        visitedNodes++;
+
+        if (goal.isEnd(current.position.x, current.position.y, current.position.z)) {
+            return { status: "success", path: reconstruct(current), cost: current.g, visitedNodes };
+        }
+
+        if (current.h < best.h || (current.h === best.h && current.g < best.g)) {
+            best = current;
+        }
+
+        if (visitedNodes >= maxNodes || Date.now() > deadline) {
+            return { status: visitedNodes >= maxNodes ? "partial" : "timeout", path: reconstruct(best), cost: best.g, visitedNodes };
+        }
+
+        for (const move of movements.getNeighbors(current.position, current.move)) {
+            const key = keyOf(move);
+            const g = current.g + move.cost;
+            const existing = nodes.get(key);
+
+            if (existing) {
+                if (existing.closed || g >= existing.g) continue;
+                existing.g = g;
+                existing.f = g + existing.h;
+                existing.parent = current;
+                existing.move = move;
+                open.update(existing);
+                continue;
+            }
+
+            const h = goal.heuristic(move.x, move.y, move.z);
+            const node: PathNode = {
+                key,
+                position: { x: move.x, y: move.y, z: move.z },
+                g,
+                h,
+                f: g + h,
+                parent: current,
+                move,
+                heapIndex: 0,
+                closed: false,
+            };
+            nodes.set(key, node);
+            open.push(node);
+        }
+    }
+
+    return { status: best === startNode ? "noPath" : "partial", path: reconstruct(best), cost: best.g, visitedNodes };
+}
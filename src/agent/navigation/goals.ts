@@ -0,0 +1,172 @@
+import { Bot } from "mineflayer";
+import { DROP_COST_PER_BLOCK } from "./movements.ts";
+
+type Entity = Bot["entity"];
+
+/**
+ * Navigation goals
+ * A goal tells the planner when a node is acceptable and estimates the remaining cost from any node.
+ */
+export interface Goal {
+    /**
+     * Whether standing at the given block position satisfies the goal
+     */
+    isEnd(x: number, y: number, z: number): boolean;
+
+    /**
+     * Admissible estimate of the cost from the given position to the goal
+     */
+    heuristic(x: number, y: number, z: number): number;
+
+    /**
+     * Whether the goal moved since the last call, so the current path should be replanned
+     */
+    hasChanged(): boolean;
+
+    /**
+     * Whether navigation keeps running after the goal is reached (e.g. following an entity)
+     */
+    readonly persistent: boolean;
+
+    /**
+     * Whether the goal can still be reached at all, e.g. the target entity still exists
+     */
+    isValid(): boolean;
+}
+
+/**
+ * Octile distance on the horizontal plane plus vertical distance
+ * Climbing costs at least 1 per block, but dropping only DROP_COST_PER_BLOCK, so descent is weighted the same to stay admissible.
+ */
+function distanceEstimate(dx: number, dy: number, dz: number): number {
+    const ax = Math.abs(dx);
+    const az = Math.abs(dz);
+    const vertical = dy > 0 ? dy : -dy * DROP_COST_PER_BLOCK;
+    return vertical + Math.max(ax, az) + (Math.SQRT2 - 1) * Math.min(ax, az);
+}
+
+/**
+ * Stand exactly at a block position
+ */
+export class GoalBlock implements Goal {
+    public readonly persistent = false;
+    private x: number;
+    private y: number;
+    private z: number;
+
+    constructor(x: number, y: number, z: number) {
+        this.x = Math.floor(x);
+        this.y = Math.floor(y);
+        this.z = Math.floor(z);
+    }
+
+    public isEnd(x: number, y: number, z: number): boolean {
+        return x === this.x && y === this.y && z === this.z;
+    }
+
+    public heuristic(x: number, y: number, z: number): number {
+        return distanceEstimate(this.x - x, this.y - y, this.z - z);
+    }
+
+    public hasChanged(): boolean {
+        return false;
+    }
+
+    public isValid(): boolean {
+        return true;
+    }
+}
+
+/**
+ * Get within a distance of a position
+ */
+export class GoalNear implements Goal {
+    public readonly persistent = false;
+    private x: number;
+    private y: number;
+    private z: number;
+    private range: number;
+
+    constructor(x: number, y: number, z: number, range: number) {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+        this.range = range;
+    }
+
+    public isEnd(x: number, y: number, z: number): boolean {
+        const dx = x + 0.5 - this.x;
+        const dy = y - this.y;
+        const dz = z + 0.5 - this.z;
+        return dx * dx + dy * dy + dz * dz <= this.range * this.range;
+    }
+
+    public heuristic(x: number, y: number, z: number): number {
+        return Math.max(0, distanceEstimate(this.x - x, this.y - y, this.z - z) - this.range);
+    }
+
+    public hasChanged(): boolean {
+        return false;
+    }
+
+    public isValid(): boolean {
+        return true;
+    }
+}
+
+/**
+ * Get within a distance of an entity
+ * The goal tracks the entity's live position and reports a change once it has moved noticeably.
+ */
+export class GoalEntity implements Goal {
+    public readonly persistent: boolean;
+    private entity: Entity;
+    private range: number;
+    private lastX: number;
+    private lastY: number;
+    private lastZ: number;
+
+    /**
+     * @param entity Entity to approach
+     * @param range Distance at which the entity counts as reached
+     * @param follow Keep following the entity after reaching it
+     */
+    constructor(entity: Entity, range: number, follow = false) {
+        this.entity = entity;
+        this.range = range;
+        this.persistent = follow;
+        this.lastX = entity.position.x;
+        this.lastY = entity.position.y;
+        this.lastZ = entity.position.z;
+    }
+
+    public isEnd(x: number, y: number, z: number): boolean {
+        const p = this.entity.position;
+        const dx = x + 0.5 - p.x;
+        const dy = y - p.y;
+        const dz = z + 0.5 - p.z;
+        return dx * dx + dy * dy + dz * dz <= this.range * this.range;
+    }
+
+    public heuristic(x: number, y: number, z: number): number {
+        const p = this.entity.position;
+        return Math.max(0, distanceEstimate(p.x - x, p.y - y, p.z - z) - this.range);
+    }
+
+    public hasChanged(): boolean {
+        const p = this.entity.position;
+        const moved = Math.hypot(p.x - this.lastX, p.y - this.lastY, p.z - this.lastZ);
+        if (moved < Math.max(1, this.range / 2)) {
+            return false;
+        }
+
+        this.lastX = p.x;
+        this.lastY = p.y;
+        this.lastZ = p.z;
+        return true;
+    }
+
+    public isValid(): boolean {
+        return this.entity.isValid !== false;
+    }
+}
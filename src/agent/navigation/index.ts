@@ -0,0 +1,357 @@
+import { Bot } from "mineflayer";
+import { Vec3 } from "vec3";
+import { findPath } from "./astar.ts";
+import { Goal } from "./goals.ts";
+import { BlockLookup, Move, MovementOptions, Movements, Position } from "./movements.ts";
+
+/**
+ * Navigation subsystem
+ * Plans routes with A* over the bot's loaded world and walks them, replanning when
+ * blocks on the route change, the goal moves or a move fails.
+ */
+
+/**
+ * Navigation options
+ */
+export interface NavigationOptions extends Partial<MovementOptions> {
+    timeout?: number; // Total navigation time in milliseconds, for persistent goals the follow duration
+    searchTimeout?: number; // Time budget of a single path search
+    maxNodes?: number; // Node budget of a single path search
+}
+
+/**
+ * Result of a navigation request
+ */
+export interface NavigationResult {
+    success: boolean;
+    reason: string;
+}
+
+// Blocks the bot is willing to place when bridging or pillaring
+const SCAFFOLDING_BLOCKS = [
+    "dirt",
+    "cobblestone",
+    "cobbled_deepslate",
+    "netherrack",
+    "stone",
+    "andesite",
+    "diorite",
+    "granite",
+    "oak_planks",
+];
+
+// Consecutive failed moves before navigation gives up
+const MAX_MOVE_FAILURES = 5;
+
+const PLACE_FACES = [
+    new Vec3(0, -1, 0),
+    new Vec3(-1, 0, 0),
+    new Vec3(1, 0, 0),
+    new Vec3(0, 0, -1),
+    new Vec3(0, 0, 1),
+    new Vec3(0, 1, 0),
+];
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function keyOf(x: number, y: number, z: number): string {
+    return `${x},${y},${z}`;
+}
+
+interface NavigationToken {
+    cancelled: boolean;
+}
+
+/**
+ * Navigator class for moving the bot through the world
+ */
+export class Navigator {
+    private bot: Bot;
+    private current: NavigationToken | null = null;
+
+    /**
+     * Create a new Navigator
+     * @param bot The bot to move
+     */
+    constructor(bot: Bot) {
+        this.bot = bot;
+    }
+
+    /**
+     * Look up blocks in the bot's loaded world
+     */
+    private lookup: BlockLookup = (x, y, z) => {
+        const block = this.bot.blockAt(new Vec3(x, y, z));
+        return block
+            ? {
+                name: block.name,
+                boundingBox: block.boundingBox,
+                diggable: block.diggable,
+                hardness: block.hardness,
+            }
+            : null;
+    };
+
+    /**
+     * Whether a navigation is in progress
+     */
+    public isNavigating(): boolean {
+        return this.current !== null;
+    }
+
+    /**
+     * Cancel the navigation in progress, if any
+     */
+    public stop(): void {
+        if (this.current) {
+            this.current.cancelled = true;
+            this.current = null;
+        }
+        this.bot.clearControlStates();
+    }
+
+    /**
+     * Navigate to a goal
+     * Any navigation in progress is cancelled first.
+     * @param goal Goal to reach
+     * @param options Navigation options
+     * @returns Whether the goal was reached, and why not
+     */
+    public async goto(goal: Goal, options: NavigationOptions = {}): Promise<NavigationResult> {
+        this.stop();
+        const token: NavigationToken = { cancelled: false };
+        this.current = token;
+
+        const deadline = Date.now() + (options.timeout ?? 60000);
+        let pathBlocks = new Set<string>();
+        let replan = false;
+        let failures = 0;
+
+        const onBlockUpdate = (oldBlock: { type: number } | null, newBlock: { type: number; position: Vec3 } | null) => {
+            if (!newBlock || oldBlock?.type === newBlock.type) return;
+            const { x, y, z } = newBlock.position;
+            if (pathBlocks.has(keyOf(x, y, z))) {
+                replan = true;
+            }
+        };
+        this.bot.on("blockUpdate", onBlockUpdate);
+
+        try {
+            while (!token.cancelled) {
+                if (!goal.isValid()) {
+                    return { success: false, reason: "navigation target is gone" };
+                }
+                if (Date.now() > deadline) {
+                    return goal.persistent
+                        ? { success: true, reason: "finished following" }
+                        : { success: false, reason: "navigation timed out" };
+                }
+
+                const start = this.feetPosition();
+                if (goal.isEnd(start.x, start.y, start.z)) {
+                    if (!goal.persistent) {
+                        return { success: true, reason: "goal reached" };
+                    }
+                    this.bot.clearControlStates();
+                    await sleep(250);
+                    continue;
+                }
+
+                const movements = new Movements(this.lookup, {
+                    ...options,
+                    allowPlace: !!options.allowPlace && this.findScaffolding() !== null,
+                });
+                const result = findPath(start, goal, movements, {
+                    maxNodes: options.maxNodes,
+                    timeout: options.searchTimeout,
+                });
+
+                if (result.path.length === 0) {
+                    if (goal.persistent) {
+                        await sleep(500);
+                        continue;
+                    }
+                    return { success: false, reason: result.status === "timeout" ? "path search timed out" : "no path to goal" };
+                }
+
+                pathBlocks = this.blocksOnPath(result.path);
+                replan = false;
+
+                for (const move of result.path) {
+                    if (token.cancelled || replan || goal.hasChanged() || Date.now() > deadline) break;
+
+                    if (await this.executeMove(move, token)) {
+                        failures = 0;
+                    } else {
+                        failures++;
+                        break;
+                    }
+                }
+
+                if (failures >= MAX_MOVE_FAILURES) {
+                    return { success: false, reason: "stuck, movement failed repeatedly" };
+                }
+            }
+
+            return { success: false, reason: "navigation cancelled" };
+        } finally {
+            this.bot.removeListener("blockUpdate", onBlockUpdate);
+            if (this.current === token) {
+                this.current = null;
+                this.bot.clearControlStates();
+            }
+        }
+    }
+
+    /**
+     * Feet block position of the bot
+     */
+    private feetPosition(): Position {
+        const position = this.bot.entity.position;
+        return { x: Math.floor(position.x), y: Math.floor(position.y + 0.001), z: Math.floor(position.z) };
+    }
+
+    /**
+     * Positions whose changes invalidate the path
+     */
+    private blocksOnPath(path: Move[]): Set<string> {
+        const blocks = new Set<string>();
+        for (const move of path) {
+            for (const dy of [-1, 0, 1]) {
+                blocks.add(keyOf(move.x, move.y + dy, move.z));
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * Find a block item in the inventory usable for bridging and pillaring
+     */
+    private findScaffolding() {
+        return this.bot.inventory.items().find((item) => SCAFFOLDING_BLOCKS.includes(item.name)) ?? null;
+    }
+
+    /**
+     * Execute a single path move
+     * @returns Whether the bot ended up at the move's destination
+     */
+    private async executeMove(move: Move, token: NavigationToken): Promise<boolean> {
+        try {
+            for (const position of move.breaks) {
+                const block = this.bot.blockAt(new Vec3(position.x, position.y, position.z));
+                if (!block || block.boundingBox === "empty") continue;
+                if (!this.bot.canDigBlock(block)) return false;
+                this.bot.clearControlStates();
+                await this.bot.dig(block, true);
+            }
+
+            if (move.kind === "pillar") {
+                return await this.pillarUp(move, token);
+            }
+
+            if (move.place && !(await this.placeScaffolding(move.place))) {
+                return false;
+            }
+
+            return await this.walkTo(move, token);
+        } catch {
+            return false;
+        } finally {
+            this.bot.setControlState("sneak", false);
+        }
+    }
+
+    /**
+     * Walk, jump, drop or swim to the move's destination
+     */
+    private async walkTo(move: Move, token: NavigationToken): Promise<boolean> {
+        const targetX = move.x + 0.5;
+        const targetZ = move.z + 0.5;
+        const deadline = Date.now() + (move.kind === "drop" ? 4000 : 3000);
+
+        while (Date.now() < deadline && !token.cancelled) {
+            const position = this.bot.entity.position;
+            const dx = targetX - position.x;
+            const dz = targetZ - position.z;
+            const horizontal = Math.hypot(dx, dz);
+            const settled = this.bot.entity.onGround || move.kind === "swim" || this.isInWater();
+
+            if (horizontal < 0.3 && Math.abs(position.y - move.y) < 0.6 && settled) {
+                this.bot.clearControlStates();
+                return true;
+            }
+
+            await this.bot.look(Math.atan2(-dx, -dz), 0, true);
+            this.bot.setControlState("forward", horizontal > 0.15);
+            this.bot.setControlState("sprint", false);
+            this.bot.setControlState(
+                "jump",
+                (move.kind === "jump" && position.y < move.y - 0.2) || (this.isInWater() && move.y >= Math.floor(position.y)),
+            );
+
+            await sleep(50);
+        }
+
+        this.bot.clearControlStates();
+        return false;
+    }
+
+    /**
+     * Jump and place a block underneath to climb one block
+     */
+    private async pillarUp(move: Move, token: NavigationToken): Promise<boolean> {
+        const startY = this.bot.entity.position.y;
+        await this.bot.look(this.bot.entity.yaw, -Math.PI / 2, true);
+        this.bot.setControlState("jump", true);
+
+        const deadline = Date.now() + 1500;
+        while (this.bot.entity.position.y < startY + 1 && Date.now() < deadline && !token.cancelled) {
+            await sleep(20);
+        }
+        this.bot.setControlState("jump", false);
+
+        if (token.cancelled || this.bot.entity.position.y < startY + 1) {
+            return false;
+        }
+
+        if (!move.place || !(await this.placeScaffolding(move.place))) {
+            return false;
+        }
+
+        return await this.walkTo(move, token);
+    }
+
+    /**
+     * Place a scaffolding block at a position, against any solid neighbour
+     */
+    private async placeScaffolding(position: Position): Promise<boolean> {
+        const item = this.findScaffolding();
+        if (!item) return false;
+
+        const target = new Vec3(position.x, position.y, position.z);
+        for (const face of PLACE_FACES) {
+            const reference = this.bot.blockAt(target.plus(face));
+            if (reference && reference.boundingBox === "block") {
+                this.bot.setControlState("sneak", true);
+                await this.bot.equip(item, "hand");
+                await this.bot.placeBlock(reference, face.scaled(-1));
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private isInWater(): boolean {
+        const block = this.bot.blockAt(this.bot.entity.position);
+        return block?.name === "water";
+    }
+}
+
+export * from "./goals.ts";
+export type { BlockInfo, BlockLookup, Move, MovementOptions, Position } from "./movements.ts";
+export { Movements } from "./movements.ts";
+export { findPath } from "./astar.ts";
+export type { PathResult, PathStatus } from "./astar.ts";
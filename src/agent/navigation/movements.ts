@@ -0,0 +1,295 @@
+/**
+ * Movement model for the pathfinder
+ * Generates the moves available from a position using only a block lookup,
+ * so it works against the bot's loaded world as well as an in-memory world in tests.
+ */
+
+/**
+ * Minimal block information needed for planning
+ */
+export interface BlockInfo {
+    name: string;
+    boundingBox: "block" | "empty";
+    diggable: boolean;
+    hardness: number | null;
+}
+
+/**
+ * Block lookup, returns null for unloaded chunks
+ */
+export type BlockLookup = (x: number, y: number, z: number) => BlockInfo | null;
+
+export interface Position {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export type MoveKind = "walk" | "diagonal" | "jump" | "drop" | "swim" | "pillar" | "digDown";
+
+/**
+ * A single step of a path
+ * `x`, `y`, `z` are the feet position after the move.
+ */
+export interface Move extends Position {
+    kind: MoveKind;
+    cost: number;
+    breaks: Position[];
+    place: Position | null;
+}
+
+/**
+ * Movement options
+ */
+export interface MovementOptions {
+    allowBreak: boolean;
+    allowPlace: boolean;
+    maxDrop: number;
+    breakCost: number;
+    placeCost: number;
+}
+
+export const DEFAULT_MOVEMENT_OPTIONS: MovementOptions = {
+    allowBreak: false,
+    allowPlace: false,
+    maxDrop: 3,
+    breakCost: 4,
+    placeCost: 5,
+};
+
+// Cost of each block fallen on top of the step of a drop, the cheapest way down
+export const DROP_COST_PER_BLOCK = 0.5;
+
+const CARDINALS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const DIAGONALS: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// Blocks that hurt or trap the bot when walked into
+const DANGEROUS_BLOCKS = new Set(["lava", "fire", "soul_fire", "cactus", "magma_block", "sweet_berry_bush", "powder_snow", "cobweb"]);
+const WATER_BLOCKS = new Set(["water", "bubble_column", "kelp", "kelp_plant", "seagrass", "tall_seagrass"]);
+
+/**
+ * Generates neighbouring moves for the A* search
+ */
+export class Movements {
+    private lookup: BlockLookup;
+    private options: MovementOptions;
+    private cache = new Map<string, BlockInfo | null>();
+
+    constructor(lookup: BlockLookup, options: Partial<MovementOptions> = {}) {
+        this.lookup = lookup;
+        this.options = { ...DEFAULT_MOVEMENT_OPTIONS, ...options };
+    }
+
+    private block(x: number, y: number, z: number): BlockInfo | null {
+        const key = `${x},${y},${z}`;
+        if (!this.cache.has(key)) {
+            this.cache.set(key, this.lookup(x, y, z));
+        }
+        return this.cache.get(key)!;
+    }
+
+    private isSolid(x: number, y: number, z: number): boolean {
+        const block = this.block(x, y, z);
+        return block !== null && block.boundingBox === "block" && !DANGEROUS_BLOCKS.has(block.name);
+    }
+
+    private isWater(x: number, y: number, z: number): boolean {
+        const block = this.block(x, y, z);
+        return block !== null && WATER_BLOCKS.has(block.name);
+    }
+
+    private isPassable(x: number, y: number, z: number): boolean {
+        const block = this.block(x, y, z);
+        return block !== null && block.boundingBox === "empty" && !DANGEROUS_BLOCKS.has(block.name);
+    }
+
+    private isBreakable(x: number, y: number, z: number): boolean {
+        const block = this.block(x, y, z);
+        return block !== null && block.boundingBox === "block" && block.diggable && block.hardness !== null &&
+            !DANGEROUS_BLOCKS.has(block.name) && !this.isLiquidAbove(x, y, z);
+    }
+
+    // Breaking a block below a liquid floods the path
+    private isLiquidAbove(x: number, y: number, z: number): boolean {
+        const above = this.block(x, y + 1, z);
+        return above !== null && (WATER_BLOCKS.has(above.name) || above.name === "lava");
+    }
+
+    private breakCost(x: number, y: number, z: number): number {
+        return this.options.breakCost + (this.block(x, y, z)?.hardness ?? 0);
+    }
+
+    /**
+     * Whether the bot can stand with its feet at the position
+     */
+    public canStand(x: number, y: number, z: number): boolean {
+        return this.isPassable(x, y, z) && this.isPassable(x, y + 1, z) &&
+            (this.isSolid(x, y - 1, z) || this.isWater(x, y, z));
+    }
+
+    /**
+     * Cost and blocks to break to make a single block passable, or null if impossible
+     */
+    private clearBlock(x: number, y: number, z: number): { cost: number; breaks: Position[] } | null {
+        if (this.isPassable(x, y, z)) {
+            return { cost: 0, breaks: [] };
+        }
+        if (!this.options.allowBreak || !this.isBreakable(x, y, z)) {
+            return null;
+        }
+        return { cost: this.breakCost(x, y, z), breaks: [{ x, y, z }] };
+    }
+
+    /**
+     * Cost and blocks to break to clear the feet and head space at a position, or null if impossible
+     */
+    private clearance(x: number, y: number, z: number): { cost: number; breaks: Position[] } | null {
+        const feet = this.clearBlock(x, y, z);
+        const head = feet && this.clearBlock(x, y + 1, z);
+        if (!feet || !head) {
+            return null;
+        }
+        return { cost: feet.cost + head.cost, breaks: [...feet.breaks, ...head.breaks] };
+    }
+
+    /**
+     * Get all moves from a feet position
+     * @param node Feet position
+     * @param from Move that led to the node, its placed block counts as solid ground
+     */
+    public getNeighbors(node: Position, from: Move | null = null): Move[] {
+        const moves: Move[] = [];
+        const { x, y, z } = node;
+        const inWater = this.isWater(x, y, z);
+        const onPlacedBlock = from?.place !== null && from?.place !== undefined && from.place.x === x && from.place.y === y - 1 &&
+            from.place.z === z;
+
+        for (const [dx, dz] of CARDINALS) {
+            this.addForwardMoves(moves, x, y, z, dx, dz, inWater, onPlacedBlock);
+        }
+        for (const [dx, dz] of DIAGONALS) {
+            this.addDiagonalMove(moves, x, y, z, dx, dz, inWater);
+        }
+        this.addVerticalMoves(moves, x, y, z, inWater);
+
+        return moves;
+    }
+
+    private addForwardMoves(
+        moves: Move[],
+        x: number,
+        y: number,
+        z: number,
+        dx: number,
+        dz: number,
+        inWater: boolean,
+        onPlacedBlock: boolean,
+    ): void {
+        const nx = x + dx;
+        const nz = z + dz;
+
+        // Walk or swim on the same level, breaking obstacles if allowed
+        const flat = this.clearance(nx, y, nz);
+        if (flat) {
+            if (this.isSolid(nx, y - 1, nz) || this.isWater(nx, y, nz)) {
+                const swimming = inWater || this.isWater(nx, y, nz);
+                moves.push({
+                    x: nx,
+                    y,
+                    z: nz,
+                    kind: swimming ? "swim" : "walk",
+                    cost: (swimming ? 2 : 1) + flat.cost,
+                    breaks: flat.breaks,
+                    place: null,
+                });
+            } else if (flat.breaks.length === 0) {
+                this.addDropOrBridge(moves, x, y, z, nx, nz, onPlacedBlock);
+            }
+        }
+
+        // Jump up one block
+        if (this.isSolid(nx, y, nz)) {
+            const headroom = this.clearBlock(x, y + 2, z);
+            const landing = this.clearance(nx, y + 1, nz);
+            if (headroom && landing) {
+                const cost = 2 + headroom.cost + landing.cost;
+                moves.push({ x: nx, y: y + 1, z: nz, kind: "jump", cost, breaks: [...headroom.breaks, ...landing.breaks], place: null });
+            }
+        }
+    }
+
+    private addDropOrBridge(moves: Move[], x: number, y: number, z: number, nx: number, nz: number, onPlacedBlock: boolean): void {
+        // Fall until the first solid block or water below the destination
+        for (let depth = 1; depth <= this.options.maxDrop + 1; depth++) {
+            const ly = y - depth;
+            if (this.isWater(nx, ly, nz)) {
+                moves.push({ x: nx, y: ly, z: nz, kind: "drop", cost: 1 + depth * DROP_COST_PER_BLOCK, breaks: [], place: null });
+                return;
+            }
+            if (!this.isPassable(nx, ly, nz)) {
+                if (depth > 1 && this.isSolid(nx, ly, nz)) {
+                    const cost = 1 + (depth - 1) * DROP_COST_PER_BLOCK;
+                    moves.push({ x: nx, y: ly + 1, z: nz, kind: "drop", cost, breaks: [], place: null });
+                    return;
+                }
+                break;
+            }
+        }
+
+        // Bridge over the gap by placing a block under the destination
+        if (this.options.allowPlace && (onPlacedBlock || this.isSolid(x, y - 1, z))) {
+            moves.push({ x: nx, y, z: nz, kind: "walk", cost: 1 + this.options.placeCost, breaks: [], place: { x: nx, y: y - 1, z: nz } });
+        }
+    }
+
+    private addDiagonalMove(moves: Move[], x: number, y: number, z: number, dx: number, dz: number, inWater: boolean): void {
+        const nx = x + dx;
+        const nz = z + dz;
+
+        // Both side cells must be free, otherwise the bot clips the corner
+        if (!this.isPassable(nx, y, z) || !this.isPassable(nx, y + 1, z)) return;
+        if (!this.isPassable(x, y, nz) || !this.isPassable(x, y + 1, nz)) return;
+        if (!this.canStand(nx, y, nz)) return;
+
+        const swimming = inWater || this.isWater(nx, y, nz);
+        moves.push({
+            x: nx,
+            y,
+            z: nz,
+            kind: swimming ? "swim" : "diagonal",
+            cost: (swimming ? 2 : 1) * Math.SQRT2,
+            breaks: [],
+            place: null,
+        });
+    }
+
+    private addVerticalMoves(moves: Move[], x: number, y: number, z: number, inWater: boolean): void {
+        if (inWater) {
+            if (this.isPassable(x, y + 2, z) && (this.isWater(x, y + 1, z) || this.canStand(x, y + 1, z))) {
+                moves.push({ x, y: y + 1, z, kind: "swim", cost: 2, breaks: [], place: null });
+            }
+            if (this.isWater(x, y - 1, z)) {
+                moves.push({ x, y: y - 1, z, kind: "swim", cost: 2, breaks: [], place: null });
+            }
+            return;
+        }
+
+        // Pillar up by jumping and placing a block underneath
+        if (this.options.allowPlace && this.isSolid(x, y - 1, z) && this.isPassable(x, y + 2, z)) {
+            moves.push({ x, y: y + 1, z, kind: "pillar", cost: 1 + this.options.placeCost, breaks: [], place: { x, y, z } });
+        }
+
+        // Dig straight down onto the next solid block
+        if (this.options.allowBreak && this.isBreakable(x, y - 1, z) && this.isSolid(x, y - 2, z)) {
+            moves.push({
+                x,
+                y: y - 1,
+                z,
+                kind: "digDown",
+                cost: 1 + this.breakCost(x, y - 1, z),
+                breaks: [{ x, y: y - 1, z }],
+                place: null,
+            });
+        }
+    }
+}
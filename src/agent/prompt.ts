@@ -0,0 +1,69 @@
+import { BotConfig } from "@/config.ts";
+import { MatchRole, RoleAssignment } from "@/game/index.ts";
+
+/**
+ * Prompt building for the agent's LLM calls
+ */
+
+// Default goals per role, used alongside the win conditions sent by the orchestrator
+const ROLE_GOALS: Record<MatchRole, string> = {
+    assassin: "Hunt down your target and kill them without being exposed. Blend in, keep your role secret and avoid witnesses.",
+    target: "Stay alive until the match ends. Watch for suspicious behaviour and keep your distance from players you do not trust.",
+    bystander: "Survive and work out who the assassin is from what you see and hear in chat. Share your suspicions when useful.",
+};
+
+/**
+ * Describe the bot's secret role for the system prompt
+ * @param role The role assignment
+ * @returns The role section
+ */
+export function describeRole(role: RoleAssignment): string {
+    return [
+        "ROLE",
+        `You are the ${role.role.toUpperCase()} in this match. Never reveal your role to other players.`,
+        ...(role.target ? [`Your secret target: ${role.target}`] : []),
+        `Goal: ${ROLE_GOALS[role.role]}`,
+        ...(role.winConditions.length ? [`Win conditions:\n- ${role.winConditions.join("\n- ")}`] : []),
+        ...(role.knowledge.length ? [`What you know:\n- ${role.knowledge.join("\n- ")}`] : []),
+    ].join("\n");
+}
+
+/**
+ * Build the system prompt from the bot's identity, its prompt, its role and the available commands
+ * @param botConfig The bot configuration
+ * @param commandsDescription Available commands, one per line
+ * @param role The bot's role in the current match, if one was assigned
+ * @returns The system prompt
+ */
+export function buildSystemPrompt(botConfig: BotConfig, commandsDescription: string, role: RoleAssignment | null = null): string {
+    return [
+        `You are ${botConfig.name}, a player in a Minecraft match.`,
+        `IDENTITY\n${botConfig.identity || "An ordinary player."}`,
+        `INSTRUCTIONS\n${botConfig.prompt || "Explore the world and stay alive."}`,
+        ...(role ? [describeRole(role)] : []),
+        [
+            "On every turn you receive your heads-up display and the results of your recent actions.",
+            "Reply with one short sentence of reasoning followed by exactly one command, for example:",
+            'Steve is close, I should greet him. !say("hi Steve")',
+            'Arguments are positional: numbers, true/false or "quoted strings". Parameters marked ? may be omitted.',
+            "If a command fails or is rejected, the error shows up in RECENT_ACTIONS so you can correct it.",
+        ].join("\n"),
+        `COMMANDS\n${commandsDescription}`,
+    ].join("\n\n");
+}
+
+/**
+ * Build the per-turn observation prompt
+ * @param hudStr Heads-up display built by MCManager.headsUpDisplay
+ * @param history Results of recent actions, oldest first
+ * @param chat Recent chat and whispers from other players, oldest first
+ * @returns The observation prompt
+ */
+export function buildObservationPrompt(hudStr: string, history: string[], chat: string[] = []): string {
+    return [
+        hudStr,
+        `RECENT_CHAT${chat.length ? `\n- ${chat.join("\n- ")}` : ": none"}`,
+        `RECENT_ACTIONS${history.length ? `\n- ${history.join("\n- ")}` : ": none"}`,
+        "What is your next action?",
+    ].join("\n\n");
+}
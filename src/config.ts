@@ -1,6 +1,7 @@
-import { parse } from "npm:jsonc-parser";
-import { join } from "@std/path";
-import { logger } from "@/utils/logger.ts";
+import { parse, ParseError, printParseErrorCode } from "npm:jsonc-parser";
+import { join, relative } from "@std/path";
+import { LogFileSettings, logger, LoggingSettings } from "@/utils/logger.ts";
+import { Schema, schema, SchemaIssue, validate } from "@/utils/schema.ts";
 
 const configLogger = logger.withPrefix("Config");
 
@@ -13,6 +14,65 @@ export interface BotConfig {
     prompt: string;
 }
 
+/**
+ * LLM provider settings interface
+ */
+export interface LLMSettings {
+    provider: "openai" | "scripted";
+    baseUrl?: string;
+    model?: string;
+    apiKey?: string;
+    apiKeyEnv?: string;
+    temperature?: number;
+    maxTokens?: number;
+    timeout?: number;
+    script?: string[];
+}
+
+export type AccessRole = "viewer" | "operator" | "admin";
+
+/**
+ * HTTP API key settings interface
+ */
+export interface ApiKeySettings {
+    name: string;
+    key?: string;
+    keyEnv?: string; // Environment variable holding the key, instead of storing it in the file
+    role: AccessRole;
+}
+
+/**
+ * HTTP authentication settings interface
+ */
+export interface AuthSettings {
+    enabled?: boolean; // False gives every client admin access, without keys only loopback clients have access
+    keys: ApiKeySettings[];
+}
+
+/**
+ * WebSocket token settings interface
+ * The token is read from tokenFile, else from the tokenEnv variable, and exchanged at refreshUrl before it expires.
+ */
+export interface TokenSettings {
+    tokenEnv?: string; // Defaults to BA_WS_TOKEN
+    tokenFile?: string;
+    refreshUrl?: string;
+    refreshBefore?: number; // Seconds before expiry, defaults to 300
+}
+
+/**
+ * WebSocket encryption settings interface
+ */
+export interface EncryptionSettings {
+    allowLegacyCbc?: boolean; // Accept AES-CBC without integrity protection, for servers that predate AES-GCM
+    sessionKeys?: boolean; // Offer one AES-GCM key per session instead of an RSA-wrapped key per message, defaults to true
+    rotateAfterMessages?: number;
+    rotateAfterSeconds?: number;
+    signMessages?: boolean; // Sign outgoing messages with the client private key, defaults to true
+    requireSignatures?: boolean; // Reject unsigned messages, the welcome message included, defaults to true
+    replayWindowSeconds?: number; // Accepted clock difference for message timestamps, defaults to 30
+}
+
 /**
  * Project settings interface
  */
@@ -25,8 +85,14 @@ export interface Settings {
         pem?: {
             serverPublicKey: string;
             clientPrivateKey: string;
+            additionalClientPrivateKeys?: string[]; // Also accepted for decryption during a staged key rotation
         };
+        credentials?: TokenSettings;
+        encryption?: EncryptionSettings;
     };
+    llm?: LLMSettings;
+    auth?: AuthSettings;
+    logging?: LoggingSettings;
     [key: string]: unknown;
 }
 
@@ -40,12 +106,239 @@ export interface GameConfig {
     [key: string]: unknown;
 }
 
+const PORT = schema.number({ integer: true, min: 1, max: 65535 });
+const LOG_LEVEL = schema.oneOf("debug", "info", "warn", "error");
+const LOG_FORMAT = schema.oneOf("json", "pretty");
+
+/**
+ * Schema of bot files, the name comes from the file name
+ */
+const BOT_SCHEMA = schema.object<Omit<BotConfig, "name">>({
+    identity: schema.string(),
+    prompt: schema.string(),
+});
+
+/**
+ * Schema of settings.jsonc, unknown top-level keys are kept for extensions
+ */
+const SETTINGS_SCHEMA = schema.object<Settings>({
+    host: schema.string().default("localhost"),
+    port: PORT.default(10101),
+    websocket: schema.object({
+        host: schema.string(),
+        port: PORT,
+        pem: schema.object({
+            serverPublicKey: schema.string(),
+            clientPrivateKey: schema.string(),
+            additionalClientPrivateKeys: schema.array(schema.string()).optional(),
+        }).optional(),
+        credentials: schema.object({
+            tokenEnv: schema.string().optional(),
+            tokenFile: schema.string().optional(),
+            refreshUrl: schema.string().refine((url) => URL.canParse(url) ? undefined : "invalid URL").optional(),
+            refreshBefore: schema.number({ min: 0 }).optional(),
+        }).optional(),
+        encryption: schema.object({
+            allowLegacyCbc: schema.boolean().optional(),
+            sessionKeys: schema.boolean().optional(),
+            rotateAfterMessages: schema.number({ integer: true, min: 1 }).optional(),
+            rotateAfterSeconds: schema.number({ min: 1 }).optional(),
+            signMessages: schema.boolean().optional(),
+            requireSignatures: schema.boolean().optional(),
+            replayWindowSeconds: schema.number({ min: 1 }).optional(),
+        }).optional(),
+    }).optional(),
+    llm: schema.object({
+        provider: schema.oneOf("openai", "scripted"),
+        baseUrl: schema.string().optional(),
+        model: schema.string().optional(),
+        apiKey: schema.string().optional(),
+        apiKeyEnv: schema.string().optional(),
+        temperature: schema.number({ min: 0, max: 2 }).optional(),
+        maxTokens: schema.number({ integer: true, min: 1 }).optional(),
+        timeout: schema.number({ min: 0 }).optional(),
+        script: schema.array(schema.string()).optional(),
+    }).optional(),
+    auth: schema.object({
+        enabled: schema.boolean().optional(),
+        keys: schema.array(
+            schema.object<ApiKeySettings>({
+                name: schema.string(),
+                key: schema.string().optional(),
+                keyEnv: schema.string().optional(),
+                role: schema.oneOf("viewer", "operator", "admin"),
+            }).refine((key) => key.key || key.keyEnv ? undefined : "key or keyEnv is required"),
+        ).default([]),
+    }).optional(),
+    logging: schema.object({
+        level: LOG_LEVEL.optional(),
+        format: LOG_FORMAT.optional(),
+        files: schema.union<LogFileSettings | false>(
+            schema.oneOf(false),
+            schema.object({
+                dir: schema.string().optional(),
+                format: LOG_FORMAT.optional(),
+                maxBytes: schema.number({ integer: true, min: 1 }).optional(),
+                maxFiles: schema.number({ integer: true, min: 0 }).optional(),
+                perBot: schema.boolean().optional(),
+                combined: schema.boolean().optional(),
+            }),
+        ).optional(),
+        prefixes: schema.record(LOG_LEVEL).optional(),
+        bots: schema.record(LOG_LEVEL).optional(),
+    }).optional(),
+}, { open: true });
+
+/**
+ * Schema of game.jsonc, unknown top-level keys are kept for extensions
+ */
+const GAME_SCHEMA = schema.object<GameConfig>({
+    host: schema.string().default("localhost"),
+    port: PORT.default(25565),
+    player_username: schema.string().default("Player"),
+}, { open: true });
+
+/**
+ * Difference between two sets of bot configurations
+ */
+export interface BotsChange {
+    added: BotConfig[];
+    removed: string[];
+    changed: BotConfig[]; // New configs of bots whose config differs
+}
+
+/**
+ * Compare bot configurations key by key
+ */
+function diffBots(previous: Record<string, BotConfig>, current: Record<string, BotConfig>): BotsChange {
+    const differs = (a: BotConfig, b: BotConfig) =>
+        [...new Set([...Object.keys(a), ...Object.keys(b)])].some((key) =>
+            JSON.stringify(a[key as keyof BotConfig]) !== JSON.stringify(b[key as keyof BotConfig])
+        );
+
+    return {
+        added: Object.values(current).filter((bot) => !previous[bot.name]),
+        removed: Object.keys(previous).filter((name) => !current[name]),
+        changed: Object.values(current).filter((bot) => previous[bot.name] && differs(previous[bot.name], bot)),
+    };
+}
+
+/**
+ * Setting that can be overridden by an environment variable or a command-line flag
+ * The flag is derived from the variable, e.g. BA_WS_HOST and --ws-host
+ */
+interface ConfigOverride {
+    env: string;
+    target: "settings" | "game";
+    path: string[];
+    type: "string" | "number" | "boolean";
+}
+
+/**
+ * Supported overrides
+ * Layers from lowest to highest precedence: defaults, config/*.jsonc, environment variables, flags.
+ */
+const OVERRIDES: ConfigOverride[] = [
+    { env: "BA_HOST", target: "settings", path: ["host"], type: "string" },
+    { env: "BA_PORT", target: "settings", path: ["port"], type: "number" },
+    { env: "BA_WS_HOST", target: "settings", path: ["websocket", "host"], type: "string" },
+    { env: "BA_WS_PORT", target: "settings", path: ["websocket", "port"], type: "number" },
+    { env: "BA_WS_SERVER_PUBLIC_KEY", target: "settings", path: ["websocket", "pem", "serverPublicKey"], type: "string" },
+    { env: "BA_WS_CLIENT_PRIVATE_KEY", target: "settings", path: ["websocket", "pem", "clientPrivateKey"], type: "string" },
+    { env: "BA_WS_TOKEN_FILE", target: "settings", path: ["websocket", "credentials", "tokenFile"], type: "string" },
+    { env: "BA_WS_TOKEN_REFRESH_URL", target: "settings", path: ["websocket", "credentials", "refreshUrl"], type: "string" },
+    { env: "BA_WS_ALLOW_LEGACY_CBC", target: "settings", path: ["websocket", "encryption", "allowLegacyCbc"], type: "boolean" },
+    { env: "BA_LLM_PROVIDER", target: "settings", path: ["llm", "provider"], type: "string" },
+    { env: "BA_LLM_BASE_URL", target: "settings", path: ["llm", "baseUrl"], type: "string" },
+    { env: "BA_LLM_MODEL", target: "settings", path: ["llm", "model"], type: "string" },
+    { env: "BA_LLM_API_KEY", target: "settings", path: ["llm", "apiKey"], type: "string" },
+    { env: "BA_AUTH_ENABLED", target: "settings", path: ["auth", "enabled"], type: "boolean" },
+    { env: "BA_LOG_LEVEL", target: "settings", path: ["logging", "level"], type: "string" },
+    { env: "BA_LOG_FORMAT", target: "settings", path: ["logging", "format"], type: "string" },
+    { env: "BA_GAME_HOST", target: "game", path: ["host"], type: "string" },
+    { env: "BA_GAME_PORT", target: "game", path: ["port"], type: "number" },
+    { env: "BA_GAME_PLAYER", target: "game", path: ["player_username"], type: "string" },
+];
+
+/**
+ * Override with the value found for it
+ */
+interface AppliedOverride {
+    override: ConfigOverride;
+    source: string; // Variable or flag that set the value
+    value: string;
+}
+
+// Keys whose values are replaced when printing the config
+const SECRET_KEYS = new Set(["apiKey", "key", "token", "password", "secret"]);
+
+function overrideFlag(override: ConfigOverride): string {
+    return "--" + override.env.replace(/^BA_/, "").toLowerCase().replaceAll("_", "-");
+}
+
+/**
+ * Convert an override to its setting type, values that do not convert are left for the schema to report
+ */
+function convertOverride(override: ConfigOverride, value: string): unknown {
+    if (override.type === "number" && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (override.type === "boolean" && ["true", "false"].includes(value.toLowerCase())) {
+        return value.toLowerCase() === "true";
+    }
+    return value;
+}
+
+/**
+ * Parse --name=value, --name value and --name (true) flags
+ */
+function parseFlags(args: string[]): Map<string, string> {
+    const flags = new Map<string, string>();
+    for (let i = 0; i < args.length; i++) {
+        const match = /^(--[\w-]+)(?:=(.*))?$/s.exec(args[i]);
+        if (!match) continue;
+
+        if (match[2] !== undefined) {
+            flags.set(match[1], match[2]);
+        } else if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
+            flags.set(match[1], args[++i]);
+        } else {
+            flags.set(match[1], "true");
+        }
+    }
+    return flags;
+}
+
+/**
+ * Copy a value with secrets replaced by "<redacted>"
+ */
+function redactSecrets(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redactSecrets);
+    }
+    if (typeof value === "object" && value !== null) {
+        return Object.fromEntries(
+            Object.entries(value).map((
+                [key, item],
+            ) => [key, SECRET_KEYS.has(key) && item !== undefined ? "<redacted>" : redactSecrets(item)]),
+        );
+    }
+    return value;
+}
+
 /**
  * Config class for managing application configuration
+ * Files are checked against their schemas, errors are collected in getErrors() and should stop the application from starting.
+ * Environment variables and command-line flags override single settings, see OVERRIDES.
  */
 export class Config {
     private static instance: Config;
     private configDir: string;
+    private args: string[];
+    private errors: string[] = [];
+    private overrides: AppliedOverride[] = [];
+    private watcher: Deno.FsWatcher | null = null;
+    private botsListeners: ((change: BotsChange) => void)[] = [];
 
     settings: Settings = {
         host: "localhost",
@@ -72,9 +365,11 @@ export class Config {
 
     /**
      * Private constructor for singleton pattern
+     * @param args Command-line arguments with override flags
      */
-    private constructor(configDir: string = join(Deno.cwd(), "config")) {
+    private constructor(configDir: string = join(Deno.cwd(), "config"), args: string[] = Deno.args) {
         this.configDir = configDir;
+        this.args = args;
         this.loadConfig();
 
         configLogger.debug("Settings loaded: " + JSON.stringify(this.settings));
@@ -86,24 +381,121 @@ export class Config {
      * Load all configuration
      */
     private loadConfig(): void {
+        this.errors = [];
+        this.collectOverrides();
         this.loadSettings();
         this.loadBots();
         this.loadGameConfig();
     }
 
     /**
-     * Parse a config file content as JSONC or JSON
+     * Find the overrides set by flags or environment variables, flags win
      */
-    private parseConfigFile<T>(content: string): T {
-        try {
-            return parse(content) as T;
-        } catch (jsonError) {
-            try {
-                return JSON.parse(content) as T;
-            } catch {
-                throw jsonError;
+    private collectOverrides(): void {
+        const flags = parseFlags(this.args);
+        this.overrides = [];
+
+        for (const override of OVERRIDES) {
+            const flag = overrideFlag(override);
+            const flagValue = flags.get(flag);
+            const envValue = Deno.env.get(override.env);
+            flags.delete(flag);
+
+            if (flagValue !== undefined) {
+                this.overrides.push({ override, source: flag, value: flagValue });
+            } else if (envValue) {
+                this.overrides.push({ override, source: override.env, value: envValue });
+            }
+        }
+
+        for (const flag of flags.keys()) {
+            configLogger.warn(`Unknown flag ${flag}`);
+        }
+    }
+
+    /**
+     * Parse a config file as JSONC
+     * @returns The parsed value, or undefined after recording a syntax error
+     */
+    private parseConfigFile(path: string, content: string): unknown {
+        const parseErrors: ParseError[] = [];
+        const parsed = parse(content, parseErrors, { allowTrailingComma: true });
+        if (parseErrors.length > 0) {
+            // Later errors usually follow from the first one
+            const [error] = parseErrors;
+            const lines = content.slice(0, error.offset).split("\n");
+            const position = `${lines.length}:${lines[lines.length - 1].length + 1}`;
+            this.addError(`${relative(Deno.cwd(), path)}:${position}: ${printParseErrorCode(error.error)}`);
+            return undefined;
+        }
+        return parsed;
+    }
+
+    /**
+     * Apply the overrides of a target and check the result against a schema
+     * Issues are logged with the file, or the variable or flag that set the value, and the JSON path.
+     * @returns The value with defaults applied, or undefined if it is invalid
+     */
+    private checkConfig<T>(path: string, target: ConfigOverride["target"] | null, value: unknown, fileSchema: Schema<T>): T | undefined {
+        const overrides = this.overrides.filter(({ override }) => override.target === target);
+        if (overrides.length > 0 && typeof value === "object" && value !== null && !Array.isArray(value)) {
+            value = structuredClone(value);
+            for (const { override, value: overrideValue } of overrides) {
+                let parent = value as Record<string, unknown>;
+                for (const key of override.path.slice(0, -1)) {
+                    if (typeof parent[key] !== "object" || parent[key] === null || Array.isArray(parent[key])) {
+                        parent[key] = {};
+                    }
+                    parent = parent[key] as Record<string, unknown>;
+                }
+                parent[override.path[override.path.length - 1]] = convertOverride(override, overrideValue);
             }
         }
+
+        const file = relative(Deno.cwd(), path);
+        const report = (issue: SchemaIssue) => {
+            const applied = overrides.find(({ override }) => `$.${override.path.join(".")}` === issue.path);
+            return `${applied?.source ?? file}: ${issue.path}: ${issue.message}`;
+        };
+
+        const result = validate(fileSchema, value);
+        for (const warning of result.warnings) {
+            configLogger.warn(report(warning));
+        }
+        for (const error of result.errors) {
+            this.addError(report(error));
+        }
+        return result.value;
+    }
+
+    /**
+     * Record and log a config error
+     */
+    private addError(message: string): void {
+        this.errors.push(message);
+        configLogger.error(message);
+    }
+
+    /**
+     * Get the errors found while loading, empty if all files are valid
+     */
+    public getErrors(): string[] {
+        return [...this.errors];
+    }
+
+    /**
+     * Get the merged configuration with secrets redacted, e.g. for printing
+     * @returns Settings, game config, bots and the variables or flags that overrode settings
+     */
+    public getEffectiveConfig(): Record<string, unknown> {
+        return {
+            settings: redactSecrets(this.settings),
+            game: redactSecrets(this.game),
+            bots: this.bots,
+            overrides: Object.fromEntries(
+                this.overrides.map(({ override, source }) => [source, `${override.target}.${override.path.join(".")}`]),
+            ),
+        };
     }
 
     /**
@@ -111,20 +503,26 @@ export class Config {
      */
     private loadSettings(): void {
         const configPath = join(this.configDir, "settings.jsonc");
+        let parsedSettings: unknown = {};
 
         try {
-            if (!Deno.statSync(configPath).isFile) {
+            if (Deno.statSync(configPath).isFile) {
+                parsedSettings = this.parseConfigFile(configPath, Deno.readTextFileSync(configPath));
+            } else {
                 configLogger.warn("Settings file not found, using defaults");
-                return;
             }
-
-            const content = Deno.readTextFileSync(configPath);
-            const parsedSettings = this.parseConfigFile<Settings>(content);
-            this.settings = { ...this.settings, ...parsedSettings };
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             configLogger.error(`Error loading settings: ${errorMessage}`);
         }
+
+        // Overrides also apply without a settings file
+        const settings = parsedSettings === undefined
+            ? undefined
+            : this.checkConfig(configPath, "settings", parsedSettings, SETTINGS_SCHEMA);
+        if (settings) {
+            this.settings = settings;
+        }
     }
 
     /**
@@ -132,6 +530,16 @@ export class Config {
      */
     private loadBots(): void {
         const botsDir = join(this.configDir, "bots");
+        const previous = this.bots;
+        this.bots = {};
+
+        // A file that is being edited may be invalid for a moment, keep the bot as it was instead of removing it
+        const keepPrevious = (botName: string) => {
+            if (previous[botName]) {
+                this.bots[botName] = previous[botName];
+                configLogger.warn(`Keeping the previous config of bot ${botName}`);
+            }
+        };
 
         try {
             const dirExists = (() => {
@@ -157,8 +565,12 @@ export class Config {
                     const botPath = join(botsDir, entry.name);
 
                     try {
-                        const content = Deno.readTextFileSync(botPath);
-                        const botConfig = this.parseConfigFile<Omit<BotConfig, "name">>(content);
+                        const parsed = this.parseConfigFile(botPath, Deno.readTextFileSync(botPath));
+                        const botConfig = parsed === undefined ? undefined : this.checkConfig(botPath, null, parsed, BOT_SCHEMA);
+                        if (!botConfig) {
+                            keepPrevious(botName);
+                            continue;
+                        }
 
                         this.bots[botName] = {
                             name: botName,
@@ -169,6 +581,7 @@ export class Config {
                         configLogger.error(
                             `Error loading bot config ${botName}: ${errorMessage}`,
                         );
+                        keepPrevious(botName);
                     }
                 }
             }
@@ -183,20 +596,24 @@ export class Config {
      */
     private loadGameConfig(): void {
         const configPath = join(this.configDir, "game.jsonc");
+        let parsedConfig: unknown = {};
 
         try {
-            if (!Deno.statSync(configPath).isFile) {
+            if (Deno.statSync(configPath).isFile) {
+                parsedConfig = this.parseConfigFile(configPath, Deno.readTextFileSync(configPath));
+            } else {
                 configLogger.warn("Game config file not found, using defaults");
-                return;
             }
-
-            const content = Deno.readTextFileSync(configPath);
-            const parsedConfig = this.parseConfigFile<GameConfig>(content);
-            this.game = { ...this.game, ...parsedConfig };
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             configLogger.error(`Error loading game config: ${errorMessage}`);
         }
+
+        // Overrides also apply without a game config file
+        const game = parsedConfig === undefined ? undefined : this.checkConfig(configPath, "game", parsedConfig, GAME_SCHEMA);
+        if (game) {
+            this.game = game;
+        }
     }
 
     /**
@@ -204,7 +621,80 @@ export class Config {
      */
     public reload(): void {
         configLogger.info("Reloading configuration");
+        const previous = this.bots;
         this.loadConfig();
+        this.notifyBotsChanged(previous);
+    }
+
+    /**
+     * Reload when a file in the config directory changes
+     * Bursts of events, e.g. from an editor saving or botsInit rewriting all bots, cause a single reload.
+     * Settings other than bots still need a restart to take effect.
+     * @param delay Milliseconds to wait for more events before reloading
+     */
+    public watch(delay: number = 300): void {
+        if (this.watcher) {
+            return;
+        }
+
+        let watcher: Deno.FsWatcher;
+        try {
+            watcher = Deno.watchFs(this.configDir, { recursive: true });
+        } catch (error) {
+            configLogger.warn(`Cannot watch ${this.configDir}, config changes need a reload: ${error}`);
+            return;
+        }
+        this.watcher = watcher;
+        configLogger.info(`Watching ${relative(Deno.cwd(), this.configDir)} for changes`);
+
+        (async () => {
+            let timer: number | undefined;
+            for await (const event of watcher) {
+                if (event.kind === "access" || !event.paths.some((path) => /\.jsonc?$/.test(path))) {
+                    continue;
+                }
+                clearTimeout(timer);
+                timer = setTimeout(() => this.reload(), delay);
+            }
+            clearTimeout(timer);
+        })().catch((error) => configLogger.error("Config watcher failed", error));
+    }
+
+    /**
+     * Stop watching the config directory
+     */
+    public unwatch(): void {
+        this.watcher?.close();
+        this.watcher = null;
+    }
+
+    /**
+     * Register a listener for added, removed and changed bots
+     * Called after reloads and after bots are saved or deleted through this class.
+     */
+    public onBotsChanged(listener: (change: BotsChange) => void): void {
+        this.botsListeners.push(listener);
+    }
+
+    /**
+     * Diff the bots against a previous set and notify listeners if anything changed
+     */
+    private notifyBotsChanged(previous: Record<string, BotConfig>): void {
+        const change = diffBots(previous, this.bots);
+        if (change.added.length === 0 && change.removed.length === 0 && change.changed.length === 0) {
+            return;
+        }
+
+        configLogger.info(
+            `Bots changed: ${change.added.length} added, ${change.removed.length} removed, ${change.changed.length} changed`,
+        );
+        for (const listener of this.botsListeners) {
+            try {
+                listener(change);
+            } catch (error) {
+                configLogger.error("Error in bots change listener", error as Error);
+            }
+        }
     }
 
     /**
@@ -214,6 +704,66 @@ export class Config {
         return this.bots[name];
     }
 
+    /**
+     * Create or update a bot configuration file
+     * An existing .json or .jsonc file is overwritten, otherwise a new .json file is created.
+     * @param botConfig The bot configuration
+     * @returns Whether the bot was newly created
+     */
+    public saveBot(botConfig: BotConfig): boolean {
+        const botsDir = join(this.configDir, "bots");
+        const { name, ...content } = botConfig;
+        const existingPath = this.findBotFile(name);
+
+        Deno.mkdirSync(botsDir, { recursive: true });
+        Deno.writeTextFileSync(existingPath ?? join(botsDir, `${name}.json`), JSON.stringify(content, null, 2));
+        const previous = { ...this.bots };
+        this.bots[name] = { ...botConfig };
+        this.notifyBotsChanged(previous);
+
+        configLogger.info(`Saved bot config ${name}`);
+        return existingPath === null;
+    }
+
+    /**
+     * Delete a bot configuration file
+     * @param name Bot name
+     * @returns Whether the bot existed
+     */
+    public deleteBot(name: string): boolean {
+        const path = this.findBotFile(name);
+        if (path) {
+            Deno.removeSync(path);
+        }
+
+        const existed = path !== null || name in this.bots;
+        const previous = { ...this.bots };
+        delete this.bots[name];
+        this.notifyBotsChanged(previous);
+
+        if (existed) {
+            configLogger.info(`Deleted bot config ${name}`);
+        }
+        return existed;
+    }
+
+    /**
+     * Find the configuration file of a bot
+     */
+    private findBotFile(name: string): string | null {
+        for (const extension of ["json", "jsonc"]) {
+            const path = join(this.configDir, "bots", `${name}.${extension}`);
+            try {
+                if (Deno.statSync(path).isFile) {
+                    return path;
+                }
+            } catch {
+                // Try the next extension
+            }
+        }
+        return null;
+    }
+
     /**
      * Get all bot names
      */
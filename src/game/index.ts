@@ -4,16 +4,91 @@
  */
 import { logger } from "@/utils/logger.ts";
 import { WebSocketClient } from "../server/websocket.ts";
+import { EventHub } from "@/utils/events.ts";
+import { withSpan } from "@/utils/tracing.ts";
+import { Match, MatchRole } from "./match.ts";
+
+export type { MatchRole } from "./match.ts";
 
 const gameLogger = logger.withPrefix("Game Service");
 
 export enum GameReceivedMessageType {
     BOTS_INIT = "botsInit",
+    BOT_SAY = "botSay",
+    ROLE_ASSIGN = "roleAssign",
+    MATCH_START = "matchStart",
+    MATCH_PAUSE = "matchPause",
+    MATCH_END = "matchEnd",
+    MATCH_RESET = "matchReset",
 }
 
 export enum GameSentMessageType {
     BOT_HUDSYNC = "botHUDSync",
+    BOT_COMMAND_ERROR = "botCommandError",
+    BOT_CHAT = "botChat",
+    BOT_DAMAGED = "botDamaged",
+    BOT_DIED = "botDied",
+    PLAYER_KILLED = "playerKilled",
+    MATCH_STATE = "matchState",
+    MATCH_SCOREBOARD = "matchScoreboard",
 }
+/**
+ * Chat or whisper heard by a bot
+ */
+export type BotChatMessage = {
+    channel: "chat" | "whisper";
+    username: string;
+    message: string;
+};
+
+/**
+ * Death of a bot, with its killer when known
+ */
+export type BotDiedMessage = {
+    killer?: string;
+    weapon?: string;
+    cause: string;
+    source: "chat" | "damage" | "none";
+};
+
+/**
+ * Kill of another player by a bot
+ */
+export type PlayerKilledMessage = {
+    victim: string;
+    weapon?: string;
+    cause: string;
+    source: "chat" | "entity";
+};
+
+/**
+ * Request for a bot to say something, whispered when `to` is set
+ */
+export type BotSayMessage = {
+    bot: string;
+    message: string;
+    to?: string;
+};
+
+/**
+ * Secret role assigned to a bot for a match
+ * Sent before matchStart or during the match, roles are kept until the match ends or is reset.
+ */
+export type RoleAssignment = {
+    bot: string;
+    role: MatchRole;
+    target?: string; // Player the assassin hunts
+    winConditions: string[];
+    knowledge: string[]; // Facts the bot is allowed to know, e.g. "An assassin is among the players"
+};
+
+/**
+ * Match start request, all configured bots take part when `bots` is omitted
+ */
+export type MatchStartMessage = {
+    bots?: string[];
+};
+
 export type GameReceivedMessage = {
     type: GameReceivedMessageType;
     data: Record<string, unknown> | unknown[];
@@ -31,6 +106,9 @@ export class GameService {
     private static instance: GameService;
     public wsClient: WebSocketClient;
     public botsConfigPath: string;
+    public roles: Map<string, RoleAssignment> = new Map();
+    public match: Match = new Match();
+    public huds: Map<string, { hudStr: string; updatedAt: number }> = new Map();
 
     // Private constructor for singleton pattern
     private constructor() {
@@ -46,6 +124,23 @@ export class GameService {
         return GameService.instance;
     }
 
+    /**
+     * Send a message to the orchestration server and publish it to local event subscribers
+     */
+    public async send(message: GameSentMessage): Promise<void> {
+        const data = message.data as { bot?: unknown };
+        const bot = typeof data?.bot === "string" ? data.bot : undefined;
+        const type = message.type === GameSentMessageType.BOT_HUDSYNC ? "hud" : "game";
+        EventHub.getInstance().publish(type, message.data, bot, message.type);
+
+        // Messages are dropped while there is no authenticated session, there may be no socket to send them on
+        if (!this.wsClient.isAuthenticated()) {
+            gameLogger.debug(`Not authenticated, dropping ${message.type}`);
+            return;
+        }
+        await this.wsClient.send(message);
+    }
+
     public async sendBotMessage(bot: string, data: GameSentMessage) {
         const dataType = data.type;
         const dataContent = data.data;
@@ -54,8 +149,17 @@ export class GameService {
             case GameSentMessageType.BOT_HUDSYNC:
                 await this.handleBotHUDSync(bot, (dataContent as { hudStr: string }).hudStr);
                 break;
+            case GameSentMessageType.BOT_CHAT:
+                await this.handleBotChat(bot, dataContent as BotChatMessage);
+                break;
+            case GameSentMessageType.BOT_DIED:
+                await this.handleBotDied(bot, dataContent as BotDiedMessage);
+                break;
+            case GameSentMessageType.PLAYER_KILLED:
+                await this.handlePlayerKilled(bot, dataContent as PlayerKilledMessage);
+                break;
             default:
-                await this.wsClient.send({ type: dataType, data: { bot, ...(data.data || {}) } });
+                await this.send({ type: dataType, data: { bot, ...(data.data || {}) } });
         }
     }
 
@@ -77,10 +181,33 @@ export class GameService {
 
         gameLogger.debug(`Handling message type: ${messageType}`);
 
+        await withSpan(`handle ${messageType}`, { "message.type": messageType }, () => this.dispatchMessage(messageType, messageData));
+    }
+
+    // Run the handler for a received message type
+    private async dispatchMessage(messageType: GameReceivedMessageType, messageData: GameReceivedMessage["data"]): Promise<void> {
         switch (messageType) {
             case GameReceivedMessageType.BOTS_INIT:
                 await this.handleBotsInit(messageData as { name: string }[]);
                 break;
+            case GameReceivedMessageType.BOT_SAY:
+                await this.handleBotSay(messageData as BotSayMessage);
+                break;
+            case GameReceivedMessageType.ROLE_ASSIGN:
+                await this.handleRoleAssign(messageData as RoleAssignment[]);
+                break;
+            case GameReceivedMessageType.MATCH_START:
+                await this.handleMatchStart((messageData ?? {}) as MatchStartMessage);
+                break;
+            case GameReceivedMessageType.MATCH_PAUSE:
+                await this.handleMatchPause();
+                break;
+            case GameReceivedMessageType.MATCH_END:
+                await this.handleMatchEnd();
+                break;
+            case GameReceivedMessageType.MATCH_RESET:
+                await this.handleMatchReset();
+                break;
             default:
                 gameLogger.debug(`Unhandled message type: ${messageType}`);
                 break;
@@ -1,11 +1,20 @@
-import { GameService } from "./index.ts";
+import { BotSayMessage, GameService, MatchRole, MatchStartMessage, RoleAssignment } from "./index.ts";
+import { MatchState } from "./match.ts";
 import { logger } from "@/utils/logger.ts";
+import { WorkerManager } from "@/worker/manager.ts";
+import config from "@/config.ts";
 
 const gameLogger = logger.withPrefix("Game Service");
 
 declare module "./index.ts" {
     interface GameService {
         handleBotsInit(bots: { name: string }[]): Promise<void>;
+        handleBotSay(data: BotSayMessage): Promise<void>;
+        handleRoleAssign(assignments: RoleAssignment[]): Promise<void>;
+        handleMatchStart(data: MatchStartMessage): Promise<void>;
+        handleMatchPause(): Promise<void>;
+        handleMatchEnd(): Promise<void>;
+        handleMatchReset(): Promise<void>;
     }
 }
 
@@ -44,17 +53,188 @@ GameService.prototype.handleBotsInit = async function (bots) {
             }
 
             const botFilePath = `${this.botsConfigPath}/${botConfig.name}.json`;
+            // The name comes from the file name
+            const { name: _, ...content } = botConfig;
 
             try {
-                await Deno.writeTextFile(botFilePath, JSON.stringify(botConfig, null, 2));
+                await Deno.writeTextFile(botFilePath, JSON.stringify(content, null, 2));
                 gameLogger.info(`Created bot configuration for bot ${botConfig.name}`);
             } catch (error) {
                 gameLogger.error(`Failed to write bot configuration file: ${botFilePath}`, error as Error);
             }
         }
 
+        // Apply the new bots right away instead of waiting for the config watcher
+        config.reload();
+
         gameLogger.info(`Bot initialization completed (${bots.length} bots)`);
     } catch (error) {
         gameLogger.error("Error handling botsInit message", error as Error);
     }
 };
+
+// Handle botSay message
+GameService.prototype.handleBotSay = function (data) {
+    if (!data || typeof data.bot !== "string" || typeof data.message !== "string" || !data.message.trim()) {
+        gameLogger.error("Invalid botSay message format - bot and message are required");
+        return Promise.resolve();
+    }
+
+    if (!WorkerManager.getInstance().sendChat(data.bot, data.message, data.to)) {
+        gameLogger.warn(`Cannot deliver chat to bot ${data.bot}: worker is not running`);
+    }
+    return Promise.resolve();
+};
+
+const MATCH_ROLES: MatchRole[] = ["assassin", "target", "bystander"];
+
+// Bots whose role was assigned while their worker could not take it, delivered when the match starts or resumes
+const undeliveredRoles = new Set<string>();
+
+/**
+ * Send roles to the bots' workers
+ */
+async function deliverRoles(roles: RoleAssignment[]): Promise<void> {
+    const workerManager = WorkerManager.getInstance();
+    await Promise.all(roles.map(async (role) => {
+        const result = await workerManager.sendTask(role.bot, { type: "roleAssign", args: { role } });
+        if (result.success) {
+            undeliveredRoles.delete(role.bot);
+            gameLogger.info(`Assigned role to bot ${role.bot}`);
+        } else {
+            gameLogger.warn(`Cannot deliver role to bot ${role.bot}: ${result.error}`);
+        }
+    }));
+}
+
+// Handle roleAssign message
+// Roles may be assigned before matchStart or during the match, they replace the previous assignment
+// and are kept until the match ends or is reset. Bots that are not running get theirs when the match starts or resumes.
+GameService.prototype.handleRoleAssign = async function (assignments) {
+    if (!assignments || !Array.isArray(assignments)) {
+        gameLogger.error("Invalid roleAssign message format - missing data array");
+        return;
+    }
+
+    const running = this.match.getState() === MatchState.RUNNING;
+    this.roles.clear();
+    undeliveredRoles.clear();
+
+    for (const assignment of assignments) {
+        if (!assignment?.bot || !MATCH_ROLES.includes(assignment.role)) {
+            gameLogger.warn(`Invalid role assignment, skipping: ${JSON.stringify(assignment)}`);
+            continue;
+        }
+        if (assignment.role === "assassin" && !assignment.target) {
+            gameLogger.warn(`Assassin ${assignment.bot} has no target`);
+        }
+
+        const role: RoleAssignment = {
+            bot: assignment.bot,
+            role: assignment.role,
+            target: assignment.target,
+            winConditions: Array.isArray(assignment.winConditions) ? assignment.winConditions.map(String) : [],
+            knowledge: Array.isArray(assignment.knowledge) ? assignment.knowledge.map(String) : [],
+        };
+        this.roles.set(role.bot, role);
+        this.match.setRole(role.bot, role.role, role.target);
+        undeliveredRoles.add(role.bot);
+    }
+
+    if (running) {
+        await deliverRoles([...this.roles.values()]);
+    } else {
+        gameLogger.info(`Stored ${this.roles.size} roles, they are delivered when the match starts or resumes`);
+    }
+};
+
+// Handle matchStart message, which also resumes a paused match
+GameService.prototype.handleMatchStart = async function (data) {
+    const workerManager = WorkerManager.getInstance();
+    const state = this.match.getState();
+
+    if (state === MatchState.RUNNING) {
+        gameLogger.warn("Match is already running");
+        return;
+    }
+
+    if (state === MatchState.PAUSED) {
+        workerManager.resumeAllWorkers();
+        this.match.resume();
+        gameLogger.info("Match resumed");
+        await this.publishMatchState();
+        deliverRoles([...this.roles.values()].filter((role) => undeliveredRoles.has(role.bot)))
+            .catch((error) => gameLogger.error("Role delivery failed", error as Error));
+        return;
+    }
+
+    config.reload();
+    const configs = Array.isArray(data.bots)
+        ? data.bots.map((name) => config.getBot(name)).filter((bot) => bot !== undefined)
+        : Object.values(config.bots);
+    if (!configs.length) {
+        gameLogger.error("Cannot start match: no bots configured");
+        return;
+    }
+
+    workerManager.initWorkers(configs);
+    workerManager.startAllWorkers();
+    this.match.start(configs.map((bot) => bot.name));
+    logger.setGlobalFields({ match: this.match.getId() ?? undefined });
+
+    // Roles assigned before the start, the new workers need all of them
+    for (const role of this.roles.values()) {
+        this.match.setRole(role.bot, role.role, role.target);
+    }
+
+    gameLogger.info(`Match started with ${configs.length} bots`);
+    await this.publishMatchState();
+
+    // Bots that are slow to log in hold their role task until it times out, the match state must not wait for them
+    deliverRoles([...this.roles.values()]).catch((error) => gameLogger.error("Role delivery failed", error as Error));
+};
+
+// Handle matchPause message
+GameService.prototype.handleMatchPause = async function () {
+    if (this.match.getState() !== MatchState.RUNNING) {
+        gameLogger.warn("Cannot pause: match is not running");
+        return;
+    }
+
+    // Bots stay logged in, only their agent loop is suspended
+    WorkerManager.getInstance().pauseAllWorkers();
+    this.match.pause();
+
+    gameLogger.info("Match paused");
+    await this.publishMatchState();
+};
+
+// Handle matchEnd message
+GameService.prototype.handleMatchEnd = async function () {
+    const state = this.match.getState();
+    if (state !== MatchState.RUNNING && state !== MatchState.PAUSED) {
+        gameLogger.warn("Cannot end: no match in progress");
+        return;
+    }
+
+    WorkerManager.getInstance().stopAllWorkers();
+    const scoreboard = this.match.end();
+    this.roles.clear();
+    undeliveredRoles.clear();
+
+    gameLogger.info("Match ended");
+    await this.publishMatchState();
+    await this.publishScoreboard(scoreboard);
+};
+
+// Handle matchReset message
+GameService.prototype.handleMatchReset = async function () {
+    WorkerManager.getInstance().terminateAllWorkers();
+    this.roles.clear();
+    undeliveredRoles.clear();
+    this.match.reset();
+    logger.setGlobalFields({ match: undefined });
+
+    gameLogger.info("Match reset");
+    await this.publishMatchState();
+};
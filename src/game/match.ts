@@ -0,0 +1,229 @@
+/**
+ * Match state and scoreboard
+ * Tracks the match lifecycle (lobby, running, paused, ended) and per-bot scores.
+ */
+
+export type MatchRole = "assassin" | "target" | "bystander";
+
+export enum MatchState {
+    LOBBY = "lobby",
+    RUNNING = "running",
+    PAUSED = "paused",
+    ENDED = "ended",
+}
+
+/**
+ * Per-bot scoreboard entry
+ */
+export type ScoreEntry = {
+    bot: string;
+    role?: MatchRole;
+    target?: string;
+    kills: number;
+    deaths: number;
+    alive: boolean;
+    survivalTime: number; // Milliseconds alive while the match was running
+    objectiveCompleted: boolean;
+};
+
+/**
+ * Final or intermediate scoreboard
+ */
+export type Scoreboard = {
+    state: MatchState;
+    duration: number; // Milliseconds the match was running
+    entries: ScoreEntry[];
+};
+
+type BotScore = Omit<ScoreEntry, "objectiveCompleted"> & {
+    aliveSince: number | null;
+    killedTarget: boolean;
+};
+
+/**
+ * Match class
+ * All methods take the current time so that the clock can be controlled in tests.
+ */
+export class Match {
+    private id: string | null = null;
+    private state: MatchState = MatchState.LOBBY;
+    private scores: Map<string, BotScore> = new Map();
+    private duration = 0;
+    private runningSince: number | null = null;
+
+    /**
+     * Id of the current match, null in the lobby
+     */
+    public getId(): string | null {
+        return this.id;
+    }
+
+    public getState(): MatchState {
+        return this.state;
+    }
+
+    public getBots(): string[] {
+        return Array.from(this.scores.keys());
+    }
+
+    public hasBot(bot: string): boolean {
+        return this.scores.has(bot);
+    }
+
+    /**
+     * Start a match from the lobby or after it ended, resetting all scores
+     * @param bots Names of the participating bots
+     */
+    public start(bots: string[], now = Date.now()): void {
+        this.reset();
+        for (const bot of bots) {
+            this.scores.set(bot, {
+                bot,
+                kills: 0,
+                deaths: 0,
+                alive: true,
+                survivalTime: 0,
+                aliveSince: now,
+                killedTarget: false,
+            });
+        }
+        this.id = crypto.randomUUID();
+        this.state = MatchState.RUNNING;
+        this.runningSince = now;
+    }
+
+    /**
+     * Pause a running match, freezing survival times
+     */
+    public pause(now = Date.now()): void {
+        if (this.state !== MatchState.RUNNING) return;
+        this.stopClocks(now);
+        this.state = MatchState.PAUSED;
+    }
+
+    /**
+     * Resume a paused match
+     */
+    public resume(now = Date.now()): void {
+        if (this.state !== MatchState.PAUSED) return;
+        for (const score of this.scores.values()) {
+            if (score.alive) score.aliveSince = now;
+        }
+        this.runningSince = now;
+        this.state = MatchState.RUNNING;
+    }
+
+    /**
+     * End the match
+     * @returns The final scoreboard
+     */
+    public end(now = Date.now()): Scoreboard {
+        if (this.state === MatchState.RUNNING || this.state === MatchState.PAUSED) {
+            this.stopClocks(now);
+            this.state = MatchState.ENDED;
+        }
+        return this.getScoreboard(now);
+    }
+
+    /**
+     * Clear all scores and return to the lobby
+     */
+    public reset(): void {
+        this.id = null;
+        this.scores.clear();
+        this.duration = 0;
+        this.runningSince = null;
+        this.state = MatchState.LOBBY;
+    }
+
+    /**
+     * Record a bot's role, used to score objectives
+     */
+    public setRole(bot: string, role: MatchRole, target?: string): void {
+        const score = this.scores.get(bot);
+        if (score) {
+            score.role = role;
+            score.target = target;
+        }
+    }
+
+    /**
+     * Record a kill
+     * @param killer Killing bot or player, ignored if not part of the match
+     * @param victim Killed bot or player
+     */
+    public recordKill(killer: string, victim: string): void {
+        const score = this.scores.get(killer);
+        if (!score || killer === victim) return;
+        score.kills++;
+        if (score.target && score.target === victim) {
+            score.killedTarget = true;
+        }
+    }
+
+    /**
+     * Check a kill against the killer's role
+     * @returns A description of the violation, or null if the kill is allowed or the killer has no role
+     */
+    public getViolation(killer: string, victim: string): string | null {
+        const score = this.scores.get(killer);
+        if (!score?.role) return null;
+        if (score.role !== "assassin") {
+            return `${score.role} ${killer} killed ${victim}`;
+        }
+        if (score.target && score.target !== victim) {
+            return `assassin ${killer} killed ${victim} instead of the target ${score.target}`;
+        }
+        return null;
+    }
+
+    /**
+     * Record a bot's death, stopping its survival clock
+     */
+    public recordDeath(bot: string, now = Date.now()): void {
+        const score = this.scores.get(bot);
+        if (!score) return;
+        score.deaths++;
+        if (score.aliveSince !== null) {
+            score.survivalTime += now - score.aliveSince;
+            score.aliveSince = null;
+        }
+        score.alive = false;
+    }
+
+    /**
+     * Build the scoreboard
+     * Assassins complete their objective by killing their target, everyone else by surviving until the end.
+     */
+    public getScoreboard(now = Date.now()): Scoreboard {
+        const entries = Array.from(this.scores.values()).map((score): ScoreEntry => ({
+            bot: score.bot,
+            role: score.role,
+            target: score.target,
+            kills: score.kills,
+            deaths: score.deaths,
+            alive: score.alive,
+            survivalTime: score.survivalTime + (score.aliveSince !== null ? now - score.aliveSince : 0),
+            objectiveCompleted: score.role === "assassin" ? score.killedTarget : score.alive && this.state === MatchState.ENDED,
+        }));
+
+        return {
+            state: this.state,
+            duration: this.duration + (this.runningSince !== null ? now - this.runningSince : 0),
+            entries,
+        };
+    }
+
+    private stopClocks(now: number): void {
+        for (const score of this.scores.values()) {
+            if (score.aliveSince !== null) {
+                score.survivalTime += now - score.aliveSince;
+                score.aliveSince = null;
+            }
+        }
+        if (this.runningSince !== null) {
+            this.duration += now - this.runningSince;
+            this.runningSince = null;
+        }
+    }
+}
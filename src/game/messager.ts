@@ -1,12 +1,52 @@
-import { GameSentMessageType, GameService } from "./index.ts";
-// import { logger } from "@/utils/logger.ts";
+import { BotChatMessage, BotDiedMessage, GameSentMessageType, GameService, PlayerKilledMessage } from "./index.ts";
+import { Scoreboard } from "./match.ts";
+import { logger } from "@/utils/logger.ts";
+
+const gameLogger = logger.withPrefix("Game Service");
 
 declare module "./index.ts" {
     interface GameService {
         handleBotHUDSync(bot: string, hudStr: string): Promise<void>;
+        handleBotChat(bot: string, chat: BotChatMessage): Promise<void>;
+        handleBotDied(bot: string, death: BotDiedMessage): Promise<void>;
+        handlePlayerKilled(bot: string, kill: PlayerKilledMessage): Promise<void>;
+        publishMatchState(): Promise<void>;
+        publishScoreboard(scoreboard: Scoreboard): Promise<void>;
     }
 }
 
 GameService.prototype.handleBotHUDSync = async function (bot, hudStr) {
-    await this.wsClient.send({ type: GameSentMessageType.BOT_HUDSYNC, data: { bot, hudStr } });
+    this.huds.set(bot, { hudStr, updatedAt: Date.now() });
+    await this.send({ type: GameSentMessageType.BOT_HUDSYNC, data: { bot, hudStr } });
+};
+
+GameService.prototype.handleBotChat = async function (bot, chat) {
+    await this.send({
+        type: GameSentMessageType.BOT_CHAT,
+        data: { bot, channel: chat.channel, username: chat.username, message: chat.message },
+    });
+};
+
+GameService.prototype.handleBotDied = async function (bot, death) {
+    this.match.recordDeath(bot);
+    await this.send({ type: GameSentMessageType.BOT_DIED, data: { bot, ...death } });
+};
+
+GameService.prototype.handlePlayerKilled = async function (bot, kill) {
+    this.match.recordKill(bot, kill.victim);
+
+    const violation = this.match.getViolation(bot, kill.victim);
+    if (violation) {
+        gameLogger.warn(`Rule violation: ${violation}`);
+    }
+
+    await this.send({ type: GameSentMessageType.PLAYER_KILLED, data: { bot, ...kill, killer: bot, violation } });
+};
+
+GameService.prototype.publishMatchState = async function () {
+    await this.send({ type: GameSentMessageType.MATCH_STATE, data: { state: this.match.getState(), bots: this.match.getBots() } });
+};
+
+GameService.prototype.publishScoreboard = async function (scoreboard) {
+    await this.send({ type: GameSentMessageType.MATCH_SCOREBOARD, data: scoreboard });
 };
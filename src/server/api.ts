@@ -0,0 +1,253 @@
+/**
+ * Bot management REST API
+ * JSON endpoints to inspect and control single bots, submit tasks and manage bot configs.
+ * Reading requires the viewer role, controlling bots the operator role and changing configs the admin role.
+ */
+import { Context, Router } from "@oak/oak";
+import { WorkerManager, WorkerStatus } from "@/worker/manager.ts";
+import { GameService } from "@/game/index.ts";
+import { requireRole } from "@/server/auth.ts";
+import { logger } from "@/utils/logger.ts";
+import config, { BotConfig } from "@/config.ts";
+
+const apiLogger = logger.withPrefix("API");
+
+// Minecraft usernames: 1-16 letters, digits or underscores
+const BOT_NAME_PATTERN = /^[A-Za-z0-9_]{1,16}$/;
+
+/**
+ * Send a JSON response
+ */
+function respond(ctx: Context, status: number, body: Record<string, unknown>): void {
+    ctx.response.status = status;
+    ctx.response.body = body;
+    ctx.response.type = "application/json";
+}
+
+/**
+ * Read a JSON object from the request body
+ * @returns The parsed object, or null after responding with 400 if the body is not a JSON object
+ */
+async function readJson(ctx: Context): Promise<Record<string, unknown> | null> {
+    try {
+        const value = ctx.request.hasBody ? await ctx.request.body({ type: "json" }).value : {};
+        if (value && typeof value === "object" && !Array.isArray(value)) {
+            return value as Record<string, unknown>;
+        }
+    } catch {
+        // Fall through to the error response
+    }
+
+    respond(ctx, 400, { error: "Request body must be a JSON object" });
+    return null;
+}
+
+/**
+ * Describe a bot for API responses
+ */
+function describeBot(name: string) {
+    const workerManager = WorkerManager.getInstance();
+    return {
+        name,
+        status: workerManager.getWorkerStatus(name) ?? null,
+        healthy: workerManager.isWorkerHealthy(name),
+        config: config.getBot(name) ?? null,
+    };
+}
+
+/**
+ * Build a bot config from a request body
+ * @returns The config, or an error message
+ */
+function parseBotConfig(name: string, body: Record<string, unknown>): BotConfig | string {
+    if (body.identity !== undefined && typeof body.identity !== "string") return "identity must be a string";
+    if (body.prompt !== undefined && typeof body.prompt !== "string") return "prompt must be a string";
+
+    const existing = config.getBot(name);
+    return {
+        ...existing,
+        name,
+        identity: (body.identity as string | undefined) ?? existing?.identity ?? "",
+        prompt: (body.prompt as string | undefined) ?? existing?.prompt ?? "",
+    };
+}
+
+/**
+ * Create the router for the bot management API
+ * @returns Router serving /api/bots
+ */
+export function createApiRouter(): Router {
+    const router = new Router({ prefix: "/api" });
+    const workerManager = WorkerManager.getInstance();
+    const viewer = requireRole("viewer");
+    const operator = requireRole("operator");
+    const admin = requireRole("admin");
+
+    // List bots that are configured or have a worker
+    router.get("/bots", viewer, (ctx) => {
+        const names = new Set([...config.getBotNames(), ...workerManager.getWorkerNames()]);
+        respond(ctx, 200, { status: "success", bots: [...names].map(describeBot) });
+    });
+
+    // Create a bot config
+    router.post("/bots", admin, async (ctx) => {
+        const body = await readJson(ctx);
+        if (!body) return;
+
+        const name = String(body.name ?? "");
+        if (!BOT_NAME_PATTERN.test(name)) {
+            return respond(ctx, 400, { error: "name must be 1-16 letters, digits or underscores" });
+        }
+        if (config.getBot(name)) {
+            return respond(ctx, 409, { error: `Bot ${name} already exists` });
+        }
+
+        const botConfig = parseBotConfig(name, body);
+        if (typeof botConfig === "string") {
+            return respond(ctx, 400, { error: botConfig });
+        }
+
+        config.saveBot(botConfig);
+        respond(ctx, 201, { status: "success", bot: describeBot(name) });
+    });
+
+    // Reject unknown or invalid bot names for all per-bot routes
+    router.all("/bots/:name/:rest*", viewer, async (ctx, next) => {
+        const { name } = ctx.params;
+        if (!BOT_NAME_PATTERN.test(name)) {
+            return respond(ctx, 400, { error: `Invalid bot name: ${name}` });
+        }
+        // Creating a config is the only way to address a bot that does not exist yet
+        const creating = ctx.request.method === "PUT" && ctx.params.rest === "config";
+        if (!creating && !config.getBot(name) && !workerManager.getWorkerStatus(name)) {
+            return respond(ctx, 404, { error: `Bot ${name} not found` });
+        }
+        await next();
+    });
+
+    router.get("/bots/:name", viewer, (ctx) => {
+        respond(ctx, 200, { status: "success", bot: describeBot(ctx.params.name) });
+    });
+
+    router.post("/bots/:name/start", operator, (ctx) => {
+        const { name } = ctx.params;
+        const status = workerManager.getWorkerStatus(name);
+
+        if (!status || status === WorkerStatus.TERMINATED) {
+            const botConfig = config.getBot(name);
+            if (!botConfig || !workerManager.initWorker(botConfig)) {
+                return respond(ctx, 409, { error: `Cannot create worker for bot ${name}` });
+            }
+        }
+
+        if (!workerManager.startWorker(name)) {
+            return respond(ctx, 409, { error: `Bot ${name} cannot be started in status ${workerManager.getWorkerStatus(name)}` });
+        }
+        apiLogger.info(`Started bot ${name}`);
+        respond(ctx, 200, { status: "success", bot: describeBot(name) });
+    });
+
+    router.post("/bots/:name/stop", operator, (ctx) => {
+        const { name } = ctx.params;
+        if (!workerManager.stopWorker(name)) {
+            return respond(ctx, 409, { error: `Bot ${name} is not running` });
+        }
+        apiLogger.info(`Stopped bot ${name}`);
+        respond(ctx, 200, { status: "success", bot: describeBot(name) });
+    });
+
+    router.post("/bots/:name/restart", operator, (ctx) => {
+        const { name } = ctx.params;
+        const botConfig = config.getBot(name);
+        if (!botConfig) {
+            return respond(ctx, 409, { error: `Bot ${name} has no config` });
+        }
+
+        // restartWorker only restarts existing workers
+        const restarted = workerManager.getWorkerNames().includes(name)
+            ? workerManager.restartWorker(name, botConfig)
+            : workerManager.initWorker(botConfig) && workerManager.startWorker(name);
+        if (!restarted) {
+            return respond(ctx, 409, { error: `Bot ${name} could not be restarted` });
+        }
+        apiLogger.info(`Restarted bot ${name}`);
+        respond(ctx, 200, { status: "success", bot: describeBot(name) });
+    });
+
+    // Submit a task, waiting for its result unless "wait" is false
+    router.post("/bots/:name/tasks", operator, async (ctx) => {
+        const { name } = ctx.params;
+        const body = await readJson(ctx);
+        if (!body) return;
+
+        if (typeof body.type !== "string" || !body.type) {
+            return respond(ctx, 400, { error: "type must be a non-empty string" });
+        }
+        if (body.args !== undefined && (typeof body.args !== "object" || body.args === null || Array.isArray(body.args))) {
+            return respond(ctx, 400, { error: "args must be an object" });
+        }
+        if (body.timeout !== undefined && (typeof body.timeout !== "number" || body.timeout <= 0)) {
+            return respond(ctx, 400, { error: "timeout must be a positive number of milliseconds" });
+        }
+
+        const id = crypto.randomUUID();
+        const result = workerManager.sendTask(name, {
+            id,
+            type: body.type,
+            args: body.args as Record<string, unknown> | undefined,
+            timeout: body.timeout as number | undefined,
+        });
+
+        if (body.wait === false) {
+            return respond(ctx, 202, { status: "success", id });
+        }
+        respond(ctx, 200, { status: "success", result: await result });
+    });
+
+    // Only the bot's own tasks, so that a bot's URL cannot cancel another bot's task
+    router.delete("/bots/:name/tasks/:id", operator, (ctx) => {
+        const { name, id } = ctx.params;
+        if (!workerManager.cancelTask(id, name)) {
+            return respond(ctx, 404, { error: `Task ${id} is not running on bot ${name}` });
+        }
+        respond(ctx, 202, { status: "success", message: "Cancellation requested" });
+    });
+
+    router.get("/bots/:name/hud", viewer, (ctx) => {
+        const hud = GameService.getInstance().huds.get(ctx.params.name);
+        if (!hud) {
+            return respond(ctx, 404, { error: `No HUD received from bot ${ctx.params.name} yet` });
+        }
+        respond(ctx, 200, { status: "success", ...hud });
+    });
+
+    router.get("/bots/:name/config", viewer, (ctx) => {
+        respond(ctx, 200, { status: "success", config: config.getBot(ctx.params.name) ?? null });
+    });
+
+    // Create or update a bot config, a running worker picks it up right away
+    router.put("/bots/:name/config", admin, async (ctx) => {
+        const { name } = ctx.params;
+        const body = await readJson(ctx);
+        if (!body) return;
+
+        const botConfig = parseBotConfig(name, body);
+        if (typeof botConfig === "string") {
+            return respond(ctx, 400, { error: botConfig });
+        }
+
+        const created = config.saveBot(botConfig);
+        respond(ctx, created ? 201 : 200, { status: "success", bot: describeBot(name) });
+    });
+
+    // Delete a bot config and terminate its worker
+    router.delete("/bots/:name", admin, (ctx) => {
+        const { name } = ctx.params;
+        workerManager.terminateWorker(name);
+        config.deleteBot(name);
+        apiLogger.info(`Deleted bot ${name}`);
+        respond(ctx, 200, { status: "success", message: `Bot ${name} deleted` });
+    });
+
+    return router;
+}
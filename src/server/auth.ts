@@ -0,0 +1,165 @@
+/**
+ * HTTP authentication and role-based access
+ * Clients authenticate with an API key from settings.jsonc, sent as a bearer token, in the X-API-Key header
+ * or in the access_token query parameter.
+ * Roles are ordered: viewer < operator < admin.
+ * Without configured keys only loopback clients get access, unless auth.enabled is explicitly false.
+ */
+import { Context, Middleware } from "@oak/oak";
+import { logger } from "@/utils/logger.ts";
+import config, { AccessRole, ApiKeySettings } from "@/config.ts";
+
+const authLogger = logger.withPrefix("Auth");
+
+const ROLE_LEVELS: Record<AccessRole, number> = {
+    viewer: 1,
+    operator: 2,
+    admin: 3,
+};
+
+/**
+ * Authenticated client, stored in ctx.state.auth
+ */
+export interface AuthState {
+    name: string;
+    role: AccessRole;
+}
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+    const encoder = new TextEncoder();
+    const left = encoder.encode(a);
+    const right = encoder.encode(b);
+    let diff = left.length ^ right.length;
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+    }
+    return diff === 0;
+}
+
+/**
+ * Extract the credential from the request headers
+ * @returns The key from "Authorization: Bearer <key>" or "X-API-Key", or null
+ */
+export function getCredential(headers: Pick<Headers, "get">): string | null {
+    const authorization = headers.get("authorization");
+    if (authorization) {
+        const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+        return match ? match[1].trim() : null;
+    }
+    return headers.get("x-api-key")?.trim() || null;
+}
+
+/**
+ * Find the configured key matching a credential
+ * @param keys Configured API keys
+ * @param credential Key sent by the client
+ * @returns The authenticated client, or null if no key matches
+ */
+export function findApiKey(keys: ApiKeySettings[], credential: string): AuthState | null {
+    let found: AuthState | null = null;
+    // Check every key so that timing does not reveal which one matched
+    for (const entry of keys) {
+        const key = entry.key ?? (entry.keyEnv ? Deno.env.get(entry.keyEnv) : undefined);
+        if (key && ROLE_LEVELS[entry.role] && safeEqual(key, credential) && !found) {
+            found = { name: entry.name, role: entry.role };
+        }
+    }
+    return found;
+}
+
+/**
+ * Whether a role grants at least the required access
+ */
+export function hasRole(role: AccessRole, required: AccessRole): boolean {
+    return ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+}
+
+/**
+ * How clients are authenticated
+ * - keys: by API key
+ * - loopback: no keys are configured, loopback clients are admins and others are unauthenticated
+ * - disabled: auth.enabled is false, every client is an admin
+ */
+export type AuthMode = "keys" | "loopback" | "disabled";
+
+/**
+ * Get the authentication mode from the settings
+ */
+export function getAuthMode(): AuthMode {
+    const auth = config.settings.auth;
+    if (auth?.enabled === false) {
+        return "disabled";
+    }
+    return auth?.enabled || (auth?.keys?.length ?? 0) > 0 ? "keys" : "loopback";
+}
+
+/**
+ * Whether a client address is a loopback address
+ */
+export function isLoopback(ip: string): boolean {
+    return ip === "::1" || /^(::ffff:)?127\./.test(ip);
+}
+
+/**
+ * Create the authentication middleware
+ * It identifies the client from its credential. Requests without credentials pass through unauthenticated,
+ * so that public routes keep working, while invalid credentials are rejected right away.
+ */
+export function authenticate(): Middleware {
+    const mode = getAuthMode();
+    if (mode === "disabled") {
+        authLogger.warn("HTTP authentication is disabled, every client has admin access");
+    } else if (mode === "loopback") {
+        authLogger.warn("No API keys are configured, only local clients have access, configure auth.keys in settings.jsonc");
+    }
+
+    return async (ctx, next) => {
+        const mode = getAuthMode();
+        if (mode === "disabled" || (mode === "loopback" && isLoopback(ctx.request.ip))) {
+            ctx.state.auth = { name: "anonymous", role: "admin" } as AuthState;
+            return await next();
+        }
+
+        // Browser EventSource and WebSocket clients cannot set headers, so they may pass ?access_token=
+        const credential = getCredential(ctx.request.headers) ?? ctx.request.url.searchParams.get("access_token");
+        if (credential) {
+            const auth = findApiKey(config.settings.auth?.keys ?? [], credential);
+            if (!auth) {
+                authLogger.warn(`Rejected invalid credential from ${ctx.request.ip}`);
+                return reject(ctx, 401, "Invalid credentials");
+            }
+            ctx.state.auth = auth;
+        }
+
+        await next();
+    };
+}
+
+/**
+ * Create a middleware that only lets clients with at least the given role through
+ * @param role Minimum role
+ */
+export function requireRole(role: AccessRole): Middleware {
+    return async (ctx, next) => {
+        const auth = ctx.state.auth as AuthState | undefined;
+        if (!auth) {
+            ctx.response.headers.set("WWW-Authenticate", "Bearer");
+            return reject(ctx, 401, "Authentication required");
+        }
+        if (!hasRole(auth.role, role)) {
+            authLogger.warn(`${auth.name} (${auth.role}) denied ${ctx.request.method} ${ctx.request.url.pathname}`);
+            return reject(ctx, 403, `Requires ${role} role`);
+        }
+
+        await next();
+    };
+}
+
+function reject(ctx: Context, status: number, error: string): void {
+    ctx.response.status = status;
+    ctx.response.body = { error };
+    ctx.response.type = "application/json";
+}
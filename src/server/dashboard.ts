@@ -0,0 +1,46 @@
+/**
+ * Web dashboard
+ * Serves the static browser dashboard from frontend/, which talks to the REST API and the event stream.
+ */
+import { Context, Router } from "@oak/oak";
+import { join } from "@std/path";
+
+const FRONTEND_ROOT = join(Deno.cwd(), "frontend");
+
+// Files the dashboard consists of, nothing else under frontend/ is served
+const DASHBOARD_FILES: Record<string, string> = {
+    "index.html": "text/html; charset=utf-8",
+    "app.js": "text/javascript; charset=utf-8",
+    "style.css": "text/css; charset=utf-8",
+};
+
+/**
+ * Respond with a dashboard file
+ */
+async function sendFile(ctx: Context, file: string): Promise<void> {
+    ctx.response.body = await Deno.readFile(join(FRONTEND_ROOT, file));
+    ctx.response.type = DASHBOARD_FILES[file];
+    ctx.response.headers.set("Cache-Control", "no-cache");
+}
+
+/**
+ * Create the router for the dashboard
+ * The page itself is public, the data it loads is protected by the API and event stream roles.
+ * @returns Router serving /dashboard
+ */
+export function createDashboardRouter(): Router {
+    const router = new Router({ prefix: "/dashboard" });
+
+    router.get("/", async (ctx) => {
+        await sendFile(ctx, "index.html");
+    });
+
+    router.get("/:file", async (ctx, next) => {
+        if (!Object.hasOwn(DASHBOARD_FILES, ctx.params.file)) {
+            return await next();
+        }
+        await sendFile(ctx, ctx.params.file);
+    });
+
+    return router;
+}
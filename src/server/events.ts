@@ -0,0 +1,105 @@
+/**
+ * Live event stream endpoints
+ * Streams HUD syncs, worker logs, status changes and game events over Server-Sent Events or WebSocket.
+ * Both endpoints accept ?bot= and ?type= filters, e.g. /events?bot=alice&type=hud,playerKilled
+ */
+import { Router, ServerSentEvent } from "@oak/oak";
+import { AuthState, hasRole, requireRole } from "@/server/auth.ts";
+import { applyLogLevelUpdate } from "@/server/logging.ts";
+import { EventHub, parseFilter, StreamEvent, StreamFilter } from "@/utils/events.ts";
+import { logger } from "@/utils/logger.ts";
+
+const eventsLogger = logger.withPrefix("Events");
+
+/**
+ * Control messages sent by WebSocket clients
+ */
+type ControlMessage =
+    | { type: "filter"; bots?: string[]; types?: string[] }
+    | { type: "logLevel"; level: string | null; prefix?: string; bot?: string };
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Create the router for the live event stream
+ * @returns Router serving /events (SSE) and /events/ws (WebSocket)
+ */
+export function createEventsRouter(): Router {
+    const router = new Router({ prefix: "/events" });
+    const hub = EventHub.getInstance();
+
+    router.get("/", requireRole("viewer"), (ctx) => {
+        const target = ctx.sendEvents({ keepAlive: true });
+        const handler = (event: StreamEvent) => {
+            target.dispatchEvent(new ServerSentEvent(event.type, { data: event, id: event.id }));
+        };
+
+        const unsubscribe = hub.subscribe(handler, parseFilter(ctx.request.url.searchParams));
+        target.addEventListener("close", () => unsubscribe());
+        // Flush the response headers right away so clients see the stream open
+        target.dispatchComment("connected");
+        eventsLogger.debug(`SSE client connected (${hub.getSubscriberCount()} subscribers)`);
+    });
+
+    // WebSocket clients can change their filter with {"type": "filter", "bots": [...], "types": [...]},
+    // and operators log levels with {"type": "logLevel", "level": "debug", "prefix": "Crypto"} (see server/logging.ts)
+    router.get("/ws", requireRole("viewer"), (ctx) => {
+        if (!ctx.isUpgradable) {
+            ctx.response.status = 426;
+            ctx.response.body = { error: "WebSocket upgrade required" };
+            ctx.response.type = "application/json";
+            return;
+        }
+
+        const auth = ctx.state.auth as AuthState;
+        const socket = ctx.upgrade();
+        const handler = (event: StreamEvent) => {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify(event));
+            }
+        };
+
+        let unsubscribe = () => {};
+        socket.onopen = () => {
+            unsubscribe = hub.subscribe(handler, parseFilter(ctx.request.url.searchParams));
+            eventsLogger.debug(`WebSocket client connected (${hub.getSubscriberCount()} subscribers)`);
+        };
+        socket.onmessage = (event) => {
+            try {
+                const message = JSON.parse(String(event.data)) as ControlMessage;
+                switch (message.type) {
+                    case "filter": {
+                        const filter: StreamFilter = {
+                            bots: isStringArray(message.bots) ? message.bots : [],
+                            types: isStringArray(message.types) ? message.types : [],
+                        };
+                        hub.setFilter(handler, filter);
+                        break;
+                    }
+                    case "logLevel": {
+                        if (!hasRole(auth.role, "operator")) {
+                            throw new Error("Requires operator role");
+                        }
+                        const { type: _, ...update } = message;
+                        const levels = applyLogLevelUpdate(update);
+                        if (typeof levels === "string") {
+                            throw new Error(levels);
+                        }
+                        socket.send(JSON.stringify({ type: "logLevel", levels }));
+                        break;
+                    }
+                    default:
+                        throw new Error(`Unknown message type: ${(message as { type: unknown }).type}`);
+                }
+            } catch (error) {
+                socket.send(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+            }
+        };
+        socket.onclose = () => unsubscribe();
+        socket.onerror = () => unsubscribe();
+    });
+
+    return router;
+}
@@ -0,0 +1,77 @@
+/**
+ * Runtime log level control
+ * Changes the global level, or overrides it for one logger prefix (e.g. "Crypto") or one bot.
+ * Changes apply to the server and are sent to all running workers.
+ */
+import { Router } from "@oak/oak";
+import { requireRole } from "@/server/auth.ts";
+import { WorkerManager } from "@/worker/manager.ts";
+import { isLogLevel, logger, LogLevelSettings } from "@/utils/logger.ts";
+
+const loggingLogger = logger.withPrefix("Logging");
+
+/**
+ * Apply a level change
+ * @param update { level, prefix?, bot? }, a null level removes the prefix or bot override
+ * @returns The levels after the change, or an error message
+ */
+export function applyLogLevelUpdate(update: Record<string, unknown>): LogLevelSettings | string {
+    const { level, prefix, bot } = update;
+    if (level !== null && (typeof level !== "string" || !isLogLevel(level))) {
+        return "level must be one of debug, info, warn, error or null";
+    }
+    if (prefix !== undefined && (typeof prefix !== "string" || !prefix)) return "prefix must be a non-empty string";
+    if (bot !== undefined && (typeof bot !== "string" || !bot)) return "bot must be a non-empty string";
+    if (prefix !== undefined && bot !== undefined) return "Set either prefix or bot, not both";
+
+    if (bot !== undefined) {
+        logger.setBotLevel(bot, level);
+    } else if (prefix !== undefined) {
+        logger.setPrefixLevel(prefix, level);
+    } else if (level !== null) {
+        logger.setLevel(level);
+    } else {
+        return "The global level cannot be removed";
+    }
+
+    const target = bot !== undefined ? `bot ${bot}` : prefix !== undefined ? `prefix ${prefix}` : "global";
+    loggingLogger.info(`Log level for ${target} set to ${level ?? "default"}`);
+
+    WorkerManager.getInstance().syncLogLevels();
+    return logger.getLevels();
+}
+
+/**
+ * Create the router for log level control
+ * @returns Router serving /api/logging/levels
+ */
+export function createLoggingRouter(): Router {
+    const router = new Router({ prefix: "/api/logging" });
+
+    router.get("/levels", requireRole("viewer"), (ctx) => {
+        ctx.response.body = { status: "success", levels: logger.getLevels() };
+        ctx.response.type = "application/json";
+    });
+
+    router.put("/levels", requireRole("operator"), async (ctx) => {
+        let body: unknown = null;
+        try {
+            body = ctx.request.hasBody ? await ctx.request.body({ type: "json" }).value : null;
+        } catch {
+            // Rejected below
+        }
+
+        const levels = body && typeof body === "object" && !Array.isArray(body)
+            ? applyLogLevelUpdate(body as Record<string, unknown>)
+            : "Request body must be a JSON object";
+        if (typeof levels === "string") {
+            ctx.response.status = 400;
+            ctx.response.body = { error: levels };
+        } else {
+            ctx.response.body = { status: "success", levels };
+        }
+        ctx.response.type = "application/json";
+    });
+
+    return router;
+}
@@ -0,0 +1,255 @@
+/**
+ * WebSocket token provider
+ * Reads the orchestration server token from a file or an environment variable, tracks its expiry from the JWT "exp" claim
+ * and refreshes it before it expires, from the refresh endpoint when configured or by reading the source again.
+ */
+import { decodeBase64Url } from "@std/encoding";
+import { logger } from "@/utils/logger.ts";
+import config, { TokenSettings } from "@/config.ts";
+
+const tokenLogger = logger.withPrefix("Token");
+
+const DEFAULT_TOKEN_ENV = "BA_WS_TOKEN";
+const DEFAULT_REFRESH_BEFORE = 300;
+const RETRY_DELAY = 30000;
+
+// setTimeout delays are 32-bit, longer waits are split
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Decoded JWT payload, only the claims used here are typed
+ */
+export interface JwtClaims {
+    exp?: number; // Seconds since the epoch
+    sub?: string;
+    role?: string;
+    [claim: string]: unknown;
+}
+
+type TokenListener = (token: string) => void;
+
+/**
+ * Decode the payload of a JWT without verifying its signature, the server does that
+ * @returns The claims, or null if the token is not a JWT
+ */
+export function decodeJwtClaims(token: string): JwtClaims | null {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(new TextDecoder().decode(decodeBase64Url(parts[1])));
+        return claims && typeof claims === "object" && !Array.isArray(claims) ? claims : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the expiry time of a token
+ * @returns Milliseconds since the epoch, or null if the token has no "exp" claim
+ */
+export function getTokenExpiry(token: string): number | null {
+    const exp = decodeJwtClaims(token)?.exp;
+    return typeof exp === "number" && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+/**
+ * Whether a token has expired, tokens without expiry never do
+ */
+export function isTokenExpired(token: string, now: number = Date.now()): boolean {
+    const expiry = getTokenExpiry(token);
+    return expiry !== null && expiry <= now;
+}
+
+/**
+ * Token provider class
+ * Listeners receive every new token, the WebSocket client re-authenticates its live session with it.
+ */
+export class TokenProvider {
+    private static instance: TokenProvider;
+    private settings: TokenSettings;
+    private token: string | null = null;
+    private refreshTimeout: number | null = null;
+    private listeners: TokenListener[] = [];
+
+    private constructor(settings: TokenSettings) {
+        this.settings = settings;
+    }
+
+    /**
+     * Get the singleton instance of TokenProvider
+     */
+    public static getInstance(): TokenProvider {
+        if (!TokenProvider.instance) {
+            TokenProvider.instance = new TokenProvider(config.settings.websocket?.credentials ?? {});
+        }
+        return TokenProvider.instance;
+    }
+
+    /**
+     * Register a listener for new tokens
+     */
+    public onToken(listener: TokenListener): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Get the current token
+     */
+    public getToken(): string | null {
+        return this.token;
+    }
+
+    /**
+     * Load the token and schedule its refresh
+     * @returns Whether a usable token was loaded
+     */
+    public async start(): Promise<boolean> {
+        const token = await this.readSource();
+        if (token && isTokenExpired(token) && this.settings.refreshUrl) {
+            // An expired token may still be accepted by the refresh endpoint
+            this.token = token;
+            return await this.refresh();
+        }
+
+        const loaded = token !== null && this.setToken(token);
+        this.scheduleRefresh(!loaded);
+        return loaded;
+    }
+
+    /**
+     * Stop refreshing the token
+     */
+    public stop(): void {
+        if (this.refreshTimeout !== null) {
+            clearTimeout(this.refreshTimeout);
+            this.refreshTimeout = null;
+        }
+    }
+
+    /**
+     * Get a new token now, from the refresh endpoint or the configured source
+     * @returns Whether a new token was obtained, the current one is kept otherwise
+     */
+    public async refresh(): Promise<boolean> {
+        let refreshed = false;
+        try {
+            const token = this.settings.refreshUrl ? await this.fetchToken(this.settings.refreshUrl) : await this.readSource();
+            if (!token) {
+                tokenLogger.warn("Token refresh returned no token");
+            } else if (token === this.token) {
+                tokenLogger.warn("Token source still holds the current token");
+            } else {
+                refreshed = this.setToken(token);
+            }
+        } catch (error) {
+            tokenLogger.error("Token refresh failed", error as Error);
+        }
+
+        this.scheduleRefresh(!refreshed);
+        return refreshed;
+    }
+
+    /**
+     * Accept a token if it has not expired and notify the listeners
+     */
+    private setToken(token: string): boolean {
+        const expiry = getTokenExpiry(token);
+        if (expiry !== null && expiry <= Date.now()) {
+            tokenLogger.error(`Token expired at ${new Date(expiry).toISOString()}`);
+            return false;
+        }
+        if (expiry === null) {
+            tokenLogger.warn("Token has no exp claim, it will not be refreshed");
+        }
+
+        this.token = token;
+        tokenLogger.info(expiry === null ? "Token loaded" : `Token loaded, expires at ${new Date(expiry).toISOString()}`);
+        for (const listener of this.listeners) {
+            try {
+                listener(token);
+            } catch (error) {
+                tokenLogger.error("Error in token listener", error as Error);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Schedule the next refresh, refreshBefore seconds before expiry or after a short delay when retrying
+     */
+    private scheduleRefresh(retry: boolean = false): void {
+        this.stop();
+        const expiry = this.token ? getTokenExpiry(this.token) : null;
+        const now = Date.now();
+
+        let delay: number;
+        if (retry) {
+            // Environment variables do not change while running, only a file or the endpoint can provide a new token
+            if (!this.settings.tokenFile && !this.settings.refreshUrl) {
+                const tokenEnv = this.settings.tokenEnv ?? DEFAULT_TOKEN_ENV;
+                tokenLogger.error(`No new token available, update ${tokenEnv} and restart, or configure a token file or refresh URL`);
+                return;
+            }
+            delay = RETRY_DELAY;
+        } else if (expiry !== null) {
+            delay = Math.max(expiry - (this.settings.refreshBefore ?? DEFAULT_REFRESH_BEFORE) * 1000 - now, 0);
+        } else {
+            return;
+        }
+
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = null;
+            if (delay > MAX_TIMER_DELAY) {
+                this.scheduleRefresh();
+            } else {
+                this.refresh();
+            }
+        }, Math.min(delay, MAX_TIMER_DELAY));
+    }
+
+    /**
+     * Read the token from the configured file or environment variable
+     */
+    private async readSource(): Promise<string | null> {
+        const { tokenFile } = this.settings;
+        if (tokenFile) {
+            try {
+                return (await Deno.readTextFile(tokenFile)).trim() || null;
+            } catch (error) {
+                tokenLogger.error(`Failed to read token file: ${tokenFile}`, error as Error);
+                return null;
+            }
+        }
+
+        const tokenEnv = this.settings.tokenEnv ?? DEFAULT_TOKEN_ENV;
+        const token = Deno.env.get(tokenEnv)?.trim() || null;
+        if (!token) {
+            tokenLogger.error(`No WebSocket token found, set ${tokenEnv} or websocket.credentials.tokenFile`);
+        }
+        return token;
+    }
+
+    /**
+     * Exchange the current token for a new one
+     * The endpoint is called with the current token as bearer and answers { token } or { access_token }.
+     */
+    private async fetchToken(url: string): Promise<string | null> {
+        const headers: Record<string, string> = { "Accept": "application/json" };
+        if (this.token) {
+            headers["Authorization"] = `Bearer ${this.token}`;
+        }
+
+        const response = await fetch(url, { method: "POST", headers, signal: AbortSignal.timeout(10000) });
+        if (!response.ok) {
+            await response.body?.cancel();
+            throw new Error(`Refresh endpoint answered ${response.status} ${response.statusText}`);
+        }
+
+        const body = await response.json();
+        const token = body?.token ?? body?.access_token;
+        return typeof token === "string" && token ? token : null;
+    }
+}
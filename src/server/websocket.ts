@@ -7,9 +7,31 @@ import { logger } from "@/utils/logger.ts";
 import { Config } from "@/config.ts";
 import { ClientMessageEncryptor } from "@/utils/crypto.ts";
 import { GameReceivedMessage } from "@/game/index.ts";
+import { MetricsRegistry } from "@/utils/metrics.ts";
+import { withSpan } from "@/utils/tracing.ts";
+import { getTokenExpiry } from "@/server/token.ts";
+import { SpanKind } from "@opentelemetry/api";
 
 const wsLogger = logger.withPrefix("WebSocket");
 
+const metrics = MetricsRegistry.getInstance();
+const stateMetric = metrics.gauge("blockassassin_websocket_state", "Current WebSocket connection state, 1 for the active state");
+const reconnectAttemptsMetric = metrics.gauge(
+    "blockassassin_websocket_reconnect_attempts",
+    "Reconnect attempts since the last successful connection",
+);
+const tokenExpiryMetric = metrics.gauge(
+    "blockassassin_websocket_token_expiry_timestamp_seconds",
+    "Expiry time of the authentication token, absent for tokens without exp",
+);
+const sentMetric = metrics.counter("blockassassin_websocket_messages_sent_total", "Messages sent to the server by type");
+const receivedMetric = metrics.counter("blockassassin_websocket_messages_received_total", "Messages received from the server by type");
+const cryptoDurationMetric = metrics.histogram(
+    "blockassassin_websocket_crypto_duration_seconds",
+    "Message encryption and decryption latency",
+    [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25],
+);
+
 // WebSocket connection states
 enum ConnectionState {
     DISCONNECTED = "disconnected",
@@ -18,6 +40,7 @@ enum ConnectionState {
     AUTHENTICATING = "authenticating",
     AUTHENTICATED = "authenticated",
     RECONNECTING = "reconnecting",
+    AUTH_FAILED = "auth_failed", // Token missing, expired or rejected, waits for a new token
     ERROR = "error",
 }
 
@@ -50,12 +73,17 @@ export class WebSocketClient {
     private state: ConnectionState = ConnectionState.DISCONNECTED;
     private serverUrl: string;
     private authToken: string | null = null;
+    private authError: string | null = null;
+    private tokenExpiryTimeout: number | null = null;
     private clientId: string | null = null;
     private reconnectAttempts: number = 0;
     private maxReconnectAttempts: number = 10;
     private reconnectTimeout: number | null = null;
     private pingInterval: number | null = null;
     private lastPingTime: number = 0;
+    // Messages are encrypted and decrypted one at a time, so that sequence numbers stay in order
+    private sendQueue: Promise<void> = Promise.resolve();
+    private receiveQueue: Promise<void> = Promise.resolve();
 
     // Event handlers
     private messageHandlers: MessageHandler[] = [];
@@ -80,7 +108,32 @@ export class WebSocketClient {
             "RSA",
             publicKeyPath,
             privateKeyPath,
+            {
+                ...config.settings.websocket?.encryption,
+                additionalClientPrivateKeys: config.settings.websocket?.pem?.additionalClientPrivateKeys,
+            },
         );
+
+        metrics.addCollector(() => {
+            for (const state of Object.values(ConnectionState)) {
+                stateMetric.set({ state }, state === this.state ? 1 : 0);
+            }
+            reconnectAttemptsMetric.set({}, this.reconnectAttempts);
+            const expiry = this.authToken ? getTokenExpiry(this.authToken) : null;
+            if (expiry !== null) {
+                tokenExpiryMetric.set({}, expiry / 1000);
+            }
+        });
+    }
+
+    // Encrypt or decrypt a message, recording the latency
+    private async timeCrypto(operation: "encrypt" | "decrypt", data: string): Promise<string> {
+        const startedAt = performance.now();
+        try {
+            return operation === "encrypt" ? await this.encryptor.encrypt(data) : await this.encryptor.decrypt(data);
+        } finally {
+            cryptoDurationMetric.observe({ operation }, (performance.now() - startedAt) / 1000);
+        }
     }
 
     // Get singleton instance
@@ -91,10 +144,57 @@ export class WebSocketClient {
         return WebSocketClient.instance;
     }
 
-    // Set authentication token
+    // Set authentication token, re-authenticating a live session or reconnecting after an authentication failure
     public setAuthToken(token: string): void {
         this.authToken = token;
         wsLogger.info("Authentication token set");
+        this.watchTokenExpiry();
+
+        if (this.state === ConnectionState.AUTHENTICATED) {
+            this.authenticate();
+        } else if (this.state === ConnectionState.AUTH_FAILED) {
+            this.connect();
+        }
+    }
+
+    // Fail authentication when the token expires before a new one is set
+    private watchTokenExpiry(): void {
+        if (this.tokenExpiryTimeout !== null) {
+            clearTimeout(this.tokenExpiryTimeout);
+            this.tokenExpiryTimeout = null;
+        }
+
+        const expiry = this.authToken ? getTokenExpiry(this.authToken) : null;
+        // Longer than a timer can wait, the token will be refreshed long before
+        if (expiry === null || expiry - Date.now() > 2 ** 31 - 1) {
+            return;
+        }
+
+        this.tokenExpiryTimeout = setTimeout(() => {
+            this.tokenExpiryTimeout = null;
+            if (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.AUTH_FAILED) {
+                return;
+            }
+
+            this.clearTimers();
+            if (this.socket) {
+                try {
+                    this.socket.close(WebSocketCloseCode.AUTH_ERROR, "Authentication token expired");
+                } catch (error) {
+                    wsLogger.error("Error while closing WebSocket connection", error as Error);
+                }
+                this.socket = null;
+            }
+            this.failAuthentication(`Authentication token expired at ${new Date(expiry).toISOString()}`);
+        }, Math.max(expiry - Date.now(), 0));
+    }
+
+    // Enter the authentication failed state until a new token is set
+    private failAuthentication(reason: string): void {
+        this.state = ConnectionState.AUTH_FAILED;
+        this.authError = reason;
+        wsLogger.error(`Authentication failed: ${reason}`);
+        this.triggerErrorHandlers(new Error(reason));
     }
 
     // Connect to WebSocket server
@@ -111,7 +211,13 @@ export class WebSocketClient {
         }
 
         if (!this.authToken) {
-            wsLogger.error("Cannot connect: No authentication token provided");
+            this.failAuthentication("No authentication token provided");
+            return false;
+        }
+
+        const expiry = getTokenExpiry(this.authToken);
+        if (expiry !== null && expiry <= Date.now()) {
+            this.failAuthentication(`Authentication token expired at ${new Date(expiry).toISOString()}`);
             return false;
         }
 
@@ -179,12 +285,14 @@ export class WebSocketClient {
         wsLogger.info("WebSocket connection established");
         this.state = ConnectionState.AUTHENTICATING;
         this.reconnectAttempts = 0;
+        this.encryptor.reset();
         this.authenticate();
     }
 
-    // Send authentication message
+    // Send authentication message, again on a live session when the token changes
     private async authenticate(): Promise<void> {
-        if (this.state !== ConnectionState.AUTHENTICATING || !this.socket || !this.authToken) {
+        const states = [ConnectionState.AUTHENTICATING, ConnectionState.AUTHENTICATED];
+        if (!states.includes(this.state) || !this.socket || !this.authToken) {
             return;
         }
 
@@ -192,6 +300,9 @@ export class WebSocketClient {
             const authMessage = {
                 type: "auth",
                 token: this.authToken,
+                ciphers: this.encryptor.getSupportedSuites(), // The server picks one in its welcome message
+                features: this.encryptor.getSupportedFeatures(), // And confirms the ones it supports
+                nonce: this.encryptor.getConnectionNonce(), // Covered by the signatures of this connection
                 clientInfo: {
                     version: "BlockAssassin-Client/1.0",
                     platform: Deno.build?.os || "unknown",
@@ -201,8 +312,9 @@ export class WebSocketClient {
                 },
             };
 
+            const reauthenticating = this.state === ConnectionState.AUTHENTICATED;
             await this.send(authMessage);
-            wsLogger.info("Authentication message sent with client info");
+            wsLogger.info(reauthenticating ? "Re-authentication message sent" : "Authentication message sent with client info");
         } catch (error) {
             wsLogger.error("Failed to send authentication message", error as Error);
             this.disconnect("Authentication error");
@@ -210,7 +322,13 @@ export class WebSocketClient {
     }
 
     // Handle WebSocket message event
-    private async handleMessage(event: MessageEvent): Promise<void> {
+    private handleMessage(event: MessageEvent): Promise<void> {
+        this.receiveQueue = this.receiveQueue.then(() => this.processMessage(event));
+        return this.receiveQueue;
+    }
+
+    // Process a received message
+    private async processMessage(event: MessageEvent): Promise<void> {
         try {
             const data = event.data.toString();
 
@@ -235,13 +353,25 @@ export class WebSocketClient {
     private async handleAuthMessage(data: string): Promise<void> {
         try {
             // Decrypt authentication response
-            const decryptedData = await this.encryptor.decrypt(data);
+            const decryptedData = await this.timeCrypto("decrypt", data);
             const message = JSON.parse(decryptedData);
+            receivedMetric.inc({ type: String(message.type ?? "unknown") });
 
             wsLogger.debug(`Decrypted message: ${JSON.stringify(message)}`);
 
             if (message.type === "welcome") {
+                try {
+                    this.encryptor.negotiate(message.data?.cipher, message.data?.features);
+                } catch (error) {
+                    wsLogger.error("Encryption negotiation failed", error as Error);
+                    this.disconnect("Encryption negotiation failed");
+                    this.state = ConnectionState.ERROR;
+                    this.triggerErrorHandlers(error as Error);
+                    return;
+                }
+
                 this.state = ConnectionState.AUTHENTICATED;
+                this.authError = null;
                 this.clientId = message.data.clientId;
 
                 wsLogger.info(`Authentication successful, client ID: ${this.clientId}`);
@@ -257,14 +387,22 @@ export class WebSocketClient {
     private async handleDataMessage(data: string): Promise<void> {
         try {
             // Decrypt message
-            const decryptedData = await this.encryptor.decrypt(data);
+            const decryptedData = await this.timeCrypto("decrypt", data);
 
             // Parse JSON
             const message = JSON.parse(decryptedData);
+            receivedMetric.inc({ type: String(message.type ?? "unknown") });
 
             // Log message type
             wsLogger.debug(`Received message type: ${message.type || "unknown"}`);
 
+            // Welcome after re-authentication, the session and its workers carry on
+            if (message.type === "welcome") {
+                this.clientId = message.data?.clientId ?? this.clientId;
+                wsLogger.info(`Re-authenticated with the new token, client ID: ${this.clientId}`);
+                return;
+            }
+
             // Handle ping & pong messages
             if (message.type === "ping") {
                 this.handlePing();
@@ -273,8 +411,10 @@ export class WebSocketClient {
                 return;
             }
 
-            // Notify all message handlers for other message types
-            this.triggerMessageHandlers(message);
+            // Notify all message handlers for other message types, their spans continue this one
+            await withSpan(`receive ${message.type}`, { "message.type": String(message.type) }, () => {
+                this.triggerMessageHandlers(message);
+            }, { kind: SpanKind.CONSUMER });
         } catch (error) {
             wsLogger.error("Message processing error", error as Error);
         }
@@ -337,7 +477,14 @@ export class WebSocketClient {
         wsLogger.info(`WebSocket connection closed: ${event.code} - ${event.reason}`);
 
         this.clearTimers();
-        this.state = ConnectionState.DISCONNECTED;
+        if (event.code === WebSocketCloseCode.AUTH_ERROR) {
+            // Expired tokens already failed authentication on our side
+            if (this.state !== ConnectionState.AUTH_FAILED) {
+                this.failAuthentication(event.reason || "Server rejected the authentication token");
+            }
+        } else {
+            this.state = ConnectionState.DISCONNECTED;
+        }
         this.triggerCloseHandlers(event.code, event.reason);
 
         // Do not attempt to reconnect for normal closure or authentication errors
@@ -389,27 +536,40 @@ export class WebSocketClient {
 
         // Convert message to JSON string
         const jsonMessage = JSON.stringify(message);
-        return this.sendRaw(jsonMessage);
+        return withSpan(`send ${msgType}`, { "message.type": msgType }, async () => {
+            await this.sendRaw(jsonMessage);
+            sentMetric.inc({ type: msgType });
+        }, { kind: SpanKind.PRODUCER });
     }
 
     // Send raw message to the server
-    private async sendRaw(message: string): Promise<void> {
+    private sendRaw(message: string): Promise<void> {
         if (!this.socket) {
-            throw new Error("Cannot send message: No WebSocket connection");
+            return Promise.reject(new Error("Cannot send message: No WebSocket connection"));
         }
 
+        const sending = this.sendQueue.then(() => this.encryptAndSend(message));
+        this.sendQueue = sending.catch(() => {});
+        return sending;
+    }
+
+    // Encrypt a message and send it
+    private async encryptAndSend(message: string): Promise<void> {
         try {
             // Log raw message for debugging (only first 100 chars)
             const truncatedMsg = message.length > 100 ? message.substring(0, 100) + "..." : message;
             wsLogger.debug(`Sending raw data: ${truncatedMsg}`);
 
             // Encrypt message
-            const encryptedMessage = await this.encryptor.encrypt(message);
+            const encryptedMessage = await this.timeCrypto("encrypt", message);
 
             // Log encrypted size
             wsLogger.debug(`Encrypted message size: ${encryptedMessage.length} bytes`);
 
-            // Send via WebSocket
+            // Send via WebSocket, the connection may have closed while encrypting
+            if (!this.socket) {
+                throw new Error("Cannot send message: No WebSocket connection");
+            }
             this.socket.send(encryptedMessage);
         } catch (error) {
             wsLogger.error("Failed to send message", error as Error);
@@ -486,6 +646,11 @@ export class WebSocketClient {
         return this.state;
     }
 
+    // Get why authentication failed, null unless in the auth_failed state
+    public getAuthError(): string | null {
+        return this.state === ConnectionState.AUTH_FAILED ? this.authError : null;
+    }
+
     // Get client ID
     public getClientId(): string | null {
         return this.clientId;
@@ -3,11 +3,34 @@
  *
  * Provides hybrid encryption (RSA+AES) for secure communication with the server.
  * This implementation is compatible with the server-side encryption.
+ *
+ * Envelopes carry the cipher suite version in "v": 2 is AES-GCM, legacy AES-CBC envelopes have no "v".
+ * The suite is negotiated during the auth/welcome exchange.
+ *
+ * With AES-GCM the client offers the "session-keys" feature in its auth message. When the welcome message confirms it, a
+ * session key replaces the RSA-wrapped key per message: envelopes name the key in "s" and carry it RSA-wrapped in "k" until
+ * the server first encrypts with it. Session keys rotate after a number of messages or seconds. Without confirmation every
+ * message gets its own RSA-wrapped key.
+ *
+ * Envelopes are signed with RSA-PSS over their fields plus a sequence number "n" and a timestamp "t", in "g".
+ * The signed data also covers a random connection nonce sent in the auth message, so frames of an earlier connection fail
+ * verification after a reconnect.
+ * With requireSignatures every received envelope must be signed, the welcome message included, and servers that do not
+ * confirm the "signatures" feature are refused. Otherwise unsigned envelopes are accepted until the welcome message confirms it.
+ * Received envelopes with a bad or missing signature, a repeated sequence number or a timestamp outside the
+ * replay window are rejected and logged as security events.
  */
 import { decodeBase64, encodeBase64 } from "@std/encoding";
 import { logger } from "./logger.ts";
+import { MetricsRegistry } from "./metrics.ts";
 
 const cryptoLogger = logger.withPrefix("Crypto");
+const securityLogger = logger.withPrefix("Security");
+
+const securityEventsMetric = MetricsRegistry.getInstance().counter(
+    "blockassassin_websocket_security_events_total",
+    "Received messages rejected by signature or replay checks, by event",
+);
 
 /**
  * Supported encryption algorithms
@@ -17,6 +40,108 @@ export enum EncryptionAlgorithm {
     NONE = "NONE", // No encryption, only for development environments
 }
 
+/**
+ * Cipher suites, in order of preference
+ */
+export enum CipherSuite {
+    AES_GCM = "rsa-oaep-aes-256-gcm",
+    AES_CBC = "rsa-oaep-aes-256-cbc", // Legacy, no integrity protection
+}
+
+/**
+ * Optional protocol features, offered in the auth message and enabled when the welcome message confirms them
+ */
+export enum EncryptionFeature {
+    SESSION_KEYS = "session-keys",
+    SIGNATURES = "signatures",
+}
+
+// Envelope "v" of each suite, legacy envelopes omit it
+const ENVELOPE_VERSIONS: Record<CipherSuite, number | undefined> = {
+    [CipherSuite.AES_GCM]: 2,
+    [CipherSuite.AES_CBC]: undefined,
+};
+
+// Nonce prefix of client messages, the server uses its own so that nonces never repeat under a shared key
+const CLIENT_NONCE_PREFIX = [0, 0, 0, 1];
+
+/**
+ * Message encryptor options
+ */
+export interface EncryptorOptions {
+    allowLegacyCbc?: boolean; // Accept and negotiate AES-CBC, only for servers without AES-GCM
+    sessionKeys?: boolean; // Offer session keys, defaults to true
+    rotateAfterMessages?: number; // Defaults to 100000
+    rotateAfterSeconds?: number; // Defaults to 3600
+    signMessages?: boolean; // Defaults to true
+    requireSignatures?: boolean; // Reject unsigned messages and servers that do not confirm signing, defaults to true
+    replayWindowSeconds?: number; // Accepted clock difference, defaults to 30
+    additionalClientPrivateKeys?: string[]; // PEM files also accepted for decryption while rotating the client key, missing files are skipped
+}
+
+/**
+ * Received message rejected by the signature or replay checks
+ */
+type SecurityEvent = "missing_signature" | "bad_signature" | "replayed" | "stale";
+
+/**
+ * Wire format of encrypted messages
+ */
+interface Envelope {
+    v?: number; // Suite version
+    s?: string; // Session key id
+    k?: string; // RSA-wrapped AES key
+    i: string; // IV or nonce
+    d: string; // Encrypted data
+    n?: number; // Sequence number
+    t?: number; // Timestamp in milliseconds
+    g?: string; // Signature
+}
+
+/**
+ * AES-GCM key shared with the server for many messages
+ */
+interface SessionKey {
+    id: string;
+    key: CryptoKey;
+    wrappedKey: string; // RSA-encrypted for the server
+    createdAt: number;
+    counter: number; // Messages sent, the nonce counter
+    confirmed: boolean; // The server has encrypted with it
+}
+
+/**
+ * Encode a DER key as PEM, in the format RsaKeyManager imports
+ * @param label "PUBLIC KEY" for SPKI, "PRIVATE KEY" for PKCS#8
+ */
+export function encodePem(label: "PUBLIC KEY" | "PRIVATE KEY", der: ArrayBuffer): string {
+    const lines = encodeBase64(der).match(/.{1,64}/g) ?? [];
+    return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Generate an RSA key pair as PEM
+ */
+export async function generateRsaKeyPair(modulusLength: number = 2048): Promise<{ publicKeyPem: string; privateKeyPem: string }> {
+    const keyPair = await crypto.subtle.generateKey(
+        { name: "RSA-OAEP", modulusLength, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+        true,
+        ["encrypt", "decrypt"],
+    );
+    return {
+        publicKeyPem: encodePem("PUBLIC KEY", await crypto.subtle.exportKey("spki", keyPair.publicKey)),
+        privateKeyPem: encodePem("PRIVATE KEY", await crypto.subtle.exportKey("pkcs8", keyPair.privateKey)),
+    };
+}
+
+/**
+ * Fingerprint of a public key, the SHA-256 of its SPKI encoding, e.g. SHA256:3q2+7w...
+ */
+export async function getKeyFingerprint(publicKey: CryptoKey): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", await crypto.subtle.exportKey("spki", publicKey));
+    return `SHA256:${encodeBase64(digest).replace(/=+$/, "")}`;
+}
+
 /**
  * RSA key pair management class
  */
@@ -26,6 +151,9 @@ export class RsaKeyManager {
     private clientPrivateKey: CryptoKey | null = null;
     private serverPublicKeyPem: string | null = null;
     private clientPrivateKeyPem: string | null = null;
+    private serverVerificationKey: CryptoKey | null = null;
+    private clientSigningKey: CryptoKey | null = null;
+    private additionalClientPrivateKeys: CryptoKey[] = [];
     private initialized = false;
 
     private constructor() {}
@@ -56,7 +184,11 @@ export class RsaKeyManager {
     /**
      * Initialize RSA key manager
      */
-    public async initialize(serverPublicKeyPath?: string, clientPrivateKeyPath?: string): Promise<void> {
+    public async initialize(
+        serverPublicKeyPath?: string,
+        clientPrivateKeyPath?: string,
+        additionalClientPrivateKeyPaths: string[] = [],
+    ): Promise<void> {
         if (this.initialized) return;
 
         try {
@@ -66,6 +198,7 @@ export class RsaKeyManager {
                 const pubKeyPem = await this.readPemFile(serverPublicKeyPath);
                 this.serverPublicKeyPem = pubKeyPem;
                 this.serverPublicKey = await this.importPublicKey(pubKeyPem);
+                this.serverVerificationKey = await this.importPublicKey(pubKeyPem, "RSA-PSS");
             }
 
             if (clientPrivateKeyPath) {
@@ -73,6 +206,21 @@ export class RsaKeyManager {
                 const privKeyPem = await this.readPemFile(clientPrivateKeyPath);
                 this.clientPrivateKeyPem = privKeyPem;
                 this.clientPrivateKey = await this.importPrivateKey(privKeyPem);
+                this.clientSigningKey = await this.importPrivateKey(privKeyPem, "RSA-PSS");
+            }
+
+            // Keys of a staged rotation, the server may encrypt for either key until it is complete.
+            // Promoting or finishing a rotation renames or removes these files, an outdated entry must not keep the client from starting.
+            for (const path of additionalClientPrivateKeyPaths) {
+                try {
+                    await Deno.stat(path);
+                } catch (error) {
+                    if (!(error instanceof Deno.errors.NotFound)) throw error;
+                    cryptoLogger.warn(`Skipping missing additional client RSA private key: ${path}`);
+                    continue;
+                }
+                cryptoLogger.info(`Reading additional client RSA private key from file: ${path}`);
+                this.additionalClientPrivateKeys.push(await this.importPrivateKey(await this.readPemFile(path)));
             }
 
             this.initialized = true;
@@ -89,8 +237,9 @@ export class RsaKeyManager {
 
     /**
      * Import public key from PEM format
+     * @param algorithm RSA-OAEP for encryption, RSA-PSS for signature verification
      */
-    private async importPublicKey(pemKey: string): Promise<CryptoKey> {
+    public async importPublicKey(pemKey: string, algorithm: "RSA-OAEP" | "RSA-PSS" = "RSA-OAEP"): Promise<CryptoKey> {
         try {
             // Remove header, footer, and newlines
             const pemContents = pemKey
@@ -106,11 +255,11 @@ export class RsaKeyManager {
                 "spki",
                 binaryDer,
                 {
-                    name: "RSA-OAEP",
+                    name: algorithm,
                     hash: "SHA-256",
                 },
                 true,
-                ["encrypt"],
+                [algorithm === "RSA-PSS" ? "verify" : "encrypt"],
             );
         } catch (error) {
             cryptoLogger.error("Failed to import RSA public key", error as Error);
@@ -120,8 +269,9 @@ export class RsaKeyManager {
 
     /**
      * Import private key from PEM format
+     * @param algorithm RSA-OAEP for decryption, RSA-PSS for signing
      */
-    private async importPrivateKey(pemKey: string): Promise<CryptoKey> {
+    public async importPrivateKey(pemKey: string, algorithm: "RSA-OAEP" | "RSA-PSS" = "RSA-OAEP"): Promise<CryptoKey> {
         try {
             // Remove header, footer, and newlines
             const pemContents = pemKey
@@ -137,11 +287,11 @@ export class RsaKeyManager {
                 "pkcs8",
                 binaryDer,
                 {
-                    name: "RSA-OAEP",
+                    name: algorithm,
                     hash: "SHA-256",
                 },
                 true,
-                ["decrypt"],
+                [algorithm === "RSA-PSS" ? "sign" : "decrypt"],
             );
         } catch (error) {
             cryptoLogger.error("Failed to import RSA private key", error as Error);
@@ -174,6 +324,27 @@ export class RsaKeyManager {
         }
         return this.clientPrivateKey;
     }
+
+    /**
+     * Get the client private keys accepted besides the current one
+     */
+    public getAdditionalClientPrivateKeys(): CryptoKey[] {
+        return this.additionalClientPrivateKeys;
+    }
+
+    /**
+     * Get the server public key for verifying signatures
+     */
+    public getServerVerificationKey(): CryptoKey | null {
+        return this.serverVerificationKey;
+    }
+
+    /**
+     * Get the client private key for signing
+     */
+    public getClientSigningKey(): CryptoKey | null {
+        return this.clientSigningKey;
+    }
 }
 
 /**
@@ -190,11 +361,38 @@ export class ClientMessageEncryptor {
     private keyManager: RsaKeyManager | null = null;
     private serverPublicKey: CryptoKey | null = null;
     private clientPrivateKey: CryptoKey | null = null;
+    private initialization: Promise<void> = Promise.resolve();
+    private allowLegacyCbc: boolean;
+    private suite: CipherSuite | null = null; // Negotiated suite, null until the welcome message
+    private sessionKeys: boolean;
+    private features: Set<EncryptionFeature> = new Set(); // Confirmed in the welcome message
+    private rotateAfterMessages: number;
+    private rotateAfterSeconds: number;
+    private session: SessionKey | null = null;
+    private previousSession: SessionKey | null = null; // Kept for server messages until the new key is confirmed
+    private sessionCreation: Promise<SessionKey> | null = null;
+    private signMessages: boolean;
+    private requireSignatures: boolean;
+    private replayWindow: number;
+    private sentSequence = 0;
+    private receivedSequence = 0;
+    private connectionNonce = ClientMessageEncryptor.createNonce(); // Sent in the auth message, renewed for each connection
 
     /**
      * Constructor
      */
-    constructor(algorithm: string, serverPublicKeyPath?: string, clientPrivateKeyPath?: string) {
+    constructor(algorithm: string, serverPublicKeyPath?: string, clientPrivateKeyPath?: string, options: EncryptorOptions = {}) {
+        this.allowLegacyCbc = options.allowLegacyCbc ?? false;
+        this.sessionKeys = options.sessionKeys ?? true;
+        this.rotateAfterMessages = options.rotateAfterMessages ?? 100000;
+        this.rotateAfterSeconds = options.rotateAfterSeconds ?? 3600;
+        this.signMessages = options.signMessages ?? true;
+        this.requireSignatures = options.requireSignatures ?? true;
+        this.replayWindow = (options.replayWindowSeconds ?? 30) * 1000;
+        if (this.allowLegacyCbc) {
+            cryptoLogger.warn("Legacy AES-CBC encryption is allowed, messages from servers without AES-GCM are not integrity protected");
+        }
+
         // Parse algorithm
         if (algorithm === "RSA") {
             this.algorithm = EncryptionAlgorithm.RSA;
@@ -208,18 +406,258 @@ export class ClientMessageEncryptor {
 
         // Initialize RSA keys if using RSA algorithm
         if (this.algorithm === EncryptionAlgorithm.RSA) {
-            this.initializeRsaKeys(serverPublicKeyPath, clientPrivateKeyPath);
+            this.initialization = this.initializeRsaKeys(serverPublicKeyPath, clientPrivateKeyPath, options.additionalClientPrivateKeys);
+            // Already logged, encrypt and decrypt rethrow it instead of an unhandled rejection ending the process
+            this.initialization.catch(() => {});
+        }
+    }
+
+    /**
+     * Get the suites offered in the auth message, in order of preference
+     */
+    public getSupportedSuites(): CipherSuite[] {
+        return this.allowLegacyCbc ? [CipherSuite.AES_GCM, CipherSuite.AES_CBC] : [CipherSuite.AES_GCM];
+    }
+
+    /**
+     * Get the features offered in the auth message
+     */
+    public getSupportedFeatures(): EncryptionFeature[] {
+        const features: EncryptionFeature[] = [];
+        if (this.sessionKeys) features.push(EncryptionFeature.SESSION_KEYS);
+        if (this.signMessages || this.requireSignatures) features.push(EncryptionFeature.SIGNATURES);
+        return features;
+    }
+
+    /**
+     * Get the suite used for sending, before negotiation AES-CBC when legacy servers are allowed
+     */
+    public getSuite(): CipherSuite {
+        return this.suite ?? (this.allowLegacyCbc ? CipherSuite.AES_CBC : CipherSuite.AES_GCM);
+    }
+
+    /**
+     * Use the suite chosen by the server in its welcome message and the features it confirmed
+     * @param suite Suite from the welcome message, servers without negotiation send none
+     * @param features Features from the welcome message, unknown or unoffered ones are ignored
+     * @throws If the suite is not supported, or signatures are required and the server does not sign
+     */
+    public negotiate(suite: unknown, features?: unknown): CipherSuite {
+        const chosen = suite === undefined || suite === null ? CipherSuite.AES_CBC : suite;
+        if (!this.getSupportedSuites().includes(chosen as CipherSuite)) {
+            throw new Error(
+                suite === undefined || suite === null
+                    ? "Server did not negotiate a cipher suite, set websocket.encryption.allowLegacyCbc for legacy servers"
+                    : `Server chose unsupported cipher suite: ${String(suite)}`,
+            );
+        }
+
+        const confirmed: unknown[] = Array.isArray(features) ? features : [];
+        if (this.requireSignatures && !confirmed.includes(EncryptionFeature.SIGNATURES)) {
+            throw new Error("Server does not sign its messages, set websocket.encryption.requireSignatures to false for such servers");
+        }
+
+        this.suite = chosen as CipherSuite;
+        this.features = new Set(this.getSupportedFeatures().filter((feature) => confirmed.includes(feature)));
+        cryptoLogger.info(`Negotiated cipher suite ${this.suite}, features: ${[...this.features].join(", ") || "none"}`);
+        return this.suite;
+    }
+
+    /**
+     * Forget the negotiated suite, the session keys and the sequence numbers, for a new connection with a new nonce
+     */
+    public reset(): void {
+        this.suite = null;
+        this.features.clear();
+        this.session = null;
+        this.previousSession = null;
+        this.sessionCreation = null;
+        this.sentSequence = 0;
+        this.receivedSequence = 0;
+        this.connectionNonce = ClientMessageEncryptor.createNonce();
+    }
+
+    /**
+     * Get the nonce of the current connection, sent in the auth message and covered by every signature
+     */
+    public getConnectionNonce(): string {
+        return this.connectionNonce;
+    }
+
+    /**
+     * Generate a connection nonce
+     */
+    private static createNonce(): string {
+        return encodeBase64(crypto.getRandomValues(new Uint8Array(16)));
+    }
+
+    /**
+     * Get the bytes covered by the signature
+     */
+    private getSignedData(envelope: Envelope): Uint8Array {
+        const { v, s, k, i, d, n, t } = envelope;
+        return new TextEncoder().encode(JSON.stringify([v ?? null, s ?? null, k ?? null, i, d, n, t, this.connectionNonce]));
+    }
+
+    /**
+     * Number, timestamp and sign an envelope
+     */
+    private async sign(envelope: Envelope): Promise<Envelope> {
+        const signingKey = this.keyManager?.getClientSigningKey();
+        if (!this.signMessages || !signingKey) {
+            return envelope;
+        }
+
+        const numbered = { ...envelope, n: ++this.sentSequence, t: Date.now() };
+        const signature = await crypto.subtle.sign({ name: "RSA-PSS", saltLength: 32 }, signingKey, this.getSignedData(numbered));
+        return { ...numbered, g: encodeBase64(new Uint8Array(signature)) };
+    }
+
+    /**
+     * Check the signature, sequence number and timestamp of a received envelope
+     * @throws If the envelope is rejected, after logging the security event
+     */
+    private async verify(envelope: Envelope): Promise<void> {
+        if (envelope.g === undefined) {
+            // The unauthenticated welcome message could otherwise pick the suite and features, only optional signing allows it
+            if (this.requireSignatures || this.features.has(EncryptionFeature.SIGNATURES)) {
+                this.reject("missing_signature", "Rejected unsigned message");
+            }
+            return;
+        }
+
+        const verificationKey = this.keyManager?.getServerVerificationKey();
+        if (!verificationKey) {
+            throw new Error("Server public key not available for signature verification");
+        }
+
+        const { n, t, g } = envelope;
+        const valid = typeof g === "string" && Number.isSafeInteger(n) && Number.isFinite(t) && await crypto.subtle.verify(
+            { name: "RSA-PSS", saltLength: 32 },
+            verificationKey,
+            decodeBase64(g),
+            this.getSignedData(envelope),
+        ).catch(() => false);
+        if (!valid) {
+            this.reject("bad_signature", "Rejected message with an invalid signature");
+        }
+
+        const age = Date.now() - t!;
+        if (Math.abs(age) > this.replayWindow) {
+            this.reject("stale", `Rejected message ${n} with a timestamp ${age} ms off, outside the replay window`);
+        }
+        if (n! <= this.receivedSequence) {
+            this.reject("replayed", `Rejected replayed message ${n}, last sequence number was ${this.receivedSequence}`);
+        }
+        this.receivedSequence = n!;
+    }
+
+    /**
+     * Log a security event and reject the message
+     */
+    private reject(event: SecurityEvent, message: string): never {
+        securityEventsMetric.inc({ event });
+        securityLogger.withFields({ event }).warn(message);
+        throw new Error(message);
+    }
+
+    /**
+     * Whether messages use session keys, only once the server confirmed them for AES-GCM
+     */
+    private usesSessionKeys(): boolean {
+        return this.suite === CipherSuite.AES_GCM && this.features.has(EncryptionFeature.SESSION_KEYS);
+    }
+
+    /**
+     * Get the id of the session key used for sending, null before the first message
+     */
+    public getSessionId(): string | null {
+        return this.session?.id ?? null;
+    }
+
+    /**
+     * Get the session key for the next message, rotating it when it is due
+     */
+    private async getSendingSession(): Promise<SessionKey> {
+        const current = this.session;
+        if (
+            current && current.counter < this.rotateAfterMessages && Date.now() - current.createdAt < this.rotateAfterSeconds * 1000
+        ) {
+            return current;
+        }
+
+        // Messages encrypted while the key is being wrapped share the new key
+        if (!this.sessionCreation) {
+            this.sessionCreation = this.createSession().finally(() => this.sessionCreation = null);
+        }
+        return await this.sessionCreation;
+    }
+
+    /**
+     * Generate a session key and wrap it for the server, the only RSA operation per session
+     */
+    private async createSession(): Promise<SessionKey> {
+        const rawKey = crypto.getRandomValues(new Uint8Array(32));
+        const session: SessionKey = {
+            id: encodeBase64(crypto.getRandomValues(new Uint8Array(9))),
+            key: await crypto.subtle.importKey("raw", rawKey, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]),
+            wrappedKey: await this.encryptAesKeyWithRsa(rawKey),
+            createdAt: Date.now(),
+            counter: 0,
+            confirmed: false,
+        };
+
+        if (this.session) {
+            cryptoLogger.info(`Rotating session key ${this.session.id} after ${this.session.counter} messages`);
+            // An unconfirmed key was never used by the server, the older confirmed one may still be
+            if (this.session.confirmed || !this.previousSession) {
+                this.previousSession = this.session;
+            }
+        }
+        this.session = session;
+        cryptoLogger.debug(`Created session key ${session.id}`);
+        return session;
+    }
+
+    /**
+     * Find the session key of a received message, the first use by the server confirms it
+     */
+    private receiveSession(id: string): SessionKey {
+        const session = [this.session, this.previousSession].find((candidate) => candidate?.id === id);
+        if (!session) {
+            throw new Error(`Unknown session key: ${id}`);
+        }
+
+        if (session === this.session && !session.confirmed) {
+            session.confirmed = true;
+            this.previousSession = null;
+            cryptoLogger.debug(`Session key ${session.id} confirmed by the server`);
         }
+        return session;
+    }
+
+    /**
+     * Build the nonce of the next message: the client prefix and a 64-bit big-endian counter
+     */
+    private nextNonce(session: SessionKey): Uint8Array {
+        const nonce = new Uint8Array(12);
+        nonce.set(CLIENT_NONCE_PREFIX);
+        new DataView(nonce.buffer).setBigUint64(4, BigInt(session.counter++));
+        return nonce;
     }
 
     /**
      * Initialize RSA keys
      */
-    private async initializeRsaKeys(serverPublicKeyPath?: string, clientPrivateKeyPath?: string): Promise<void> {
+    private async initializeRsaKeys(
+        serverPublicKeyPath?: string,
+        clientPrivateKeyPath?: string,
+        additionalClientPrivateKeyPaths?: string[],
+    ): Promise<void> {
         try {
             // Get RSA key manager instance
             const keyManager = RsaKeyManager.getInstance();
-            await keyManager.initialize(serverPublicKeyPath, clientPrivateKeyPath);
+            await keyManager.initialize(serverPublicKeyPath, clientPrivateKeyPath, additionalClientPrivateKeyPaths);
             this.keyManager = keyManager;
 
             // Load keys if available
@@ -246,6 +684,7 @@ export class ClientMessageEncryptor {
      * Encrypt message using the specified algorithm
      */
     public async encrypt(message: string): Promise<string> {
+        await this.initialization;
         if (this.algorithm === EncryptionAlgorithm.NONE) {
             // No encryption, just return the message
             return message;
@@ -270,6 +709,7 @@ export class ClientMessageEncryptor {
      * Decrypt message using the specified algorithm
      */
     public async decrypt(encryptedMessage: string): Promise<string> {
+        await this.initialization;
         if (this.algorithm === EncryptionAlgorithm.NONE) {
             // No encryption, just return the message
             return encryptedMessage;
@@ -316,16 +756,23 @@ export class ClientMessageEncryptor {
             // Decode Base64
             const encryptedKey = decodeBase64(encryptedKeyBase64);
 
-            // Decrypt the AES key with the client's RSA private key
-            const decryptedKey = await crypto.subtle.decrypt(
-                {
-                    name: "RSA-OAEP",
-                },
-                this.clientPrivateKey!,
-                encryptedKey,
-            );
-
-            return new Uint8Array(decryptedKey);
+            // Decrypt the AES key with the client's RSA private key, then with the keys of a staged rotation
+            const privateKeys = [this.clientPrivateKey!, ...(this.keyManager?.getAdditionalClientPrivateKeys() ?? [])];
+            for (const [index, privateKey] of privateKeys.entries()) {
+                try {
+                    const decryptedKey = await crypto.subtle.decrypt(
+                        {
+                            name: "RSA-OAEP",
+                        },
+                        privateKey,
+                        encryptedKey,
+                    );
+                    return new Uint8Array(decryptedKey);
+                } catch (error) {
+                    if (index === privateKeys.length - 1) throw error;
+                }
+            }
+            throw new Error("No client private key available");
         } catch (error) {
             cryptoLogger.error("Failed to decrypt AES key with RSA", error as Error);
             throw error;
@@ -335,42 +782,44 @@ export class ClientMessageEncryptor {
     /**
      * Generate random AES key and IV
      */
-    private async generateRandomAesKey(): Promise<{ key: Uint8Array; iv: Uint8Array }> {
+    private async generateRandomAesKey(suite: CipherSuite): Promise<{ key: Uint8Array; iv: Uint8Array }> {
         // Generate random AES key (256 bits = 32 bytes)
         const key = crypto.getRandomValues(new Uint8Array(32));
 
-        // Generate random initialization vector (IV) for AES-CBC (128 bits = 16 bytes)
-        const iv = crypto.getRandomValues(new Uint8Array(16));
+        // Generate random initialization vector (IV), 96 bits for AES-GCM, 128 bits for AES-CBC
+        const iv = crypto.getRandomValues(new Uint8Array(suite === CipherSuite.AES_GCM ? 12 : 16));
 
         return { key, iv };
     }
 
+    /**
+     * Get the Web Crypto parameters of a suite
+     */
+    private getAesParams(suite: CipherSuite, iv: Uint8Array): AesGcmParams | AesCbcParams {
+        return suite === CipherSuite.AES_GCM ? { name: "AES-GCM", iv, tagLength: 128 } : { name: "AES-CBC", iv };
+    }
+
     /**
      * Encrypt data with AES
      */
-    private async encryptWithAes(data: Uint8Array, key: Uint8Array, iv: Uint8Array): Promise<Uint8Array> {
+    private async encryptWithAes(data: Uint8Array, key: Uint8Array | CryptoKey, iv: Uint8Array, suite: CipherSuite): Promise<Uint8Array> {
         try {
-            // Import the raw AES key
-            const cryptoKey = await crypto.subtle.importKey(
+            const params = this.getAesParams(suite, iv);
+
+            // Import the raw AES key, session keys are imported already
+            const cryptoKey = key instanceof CryptoKey ? key : await crypto.subtle.importKey(
                 "raw",
                 key,
                 {
-                    name: "AES-CBC",
+                    name: params.name,
                     length: 256,
                 },
                 false,
                 ["encrypt"],
             );
 
-            // Encrypt the data
-            const encryptedData = await crypto.subtle.encrypt(
-                {
-                    name: "AES-CBC",
-                    iv,
-                },
-                cryptoKey,
-                data,
-            );
+            // Encrypt the data, AES-GCM appends the authentication tag
+            const encryptedData = await crypto.subtle.encrypt(params, cryptoKey, data);
 
             return new Uint8Array(encryptedData);
         } catch (error) {
@@ -382,89 +831,145 @@ export class ClientMessageEncryptor {
     /**
      * Decrypt data with AES
      */
-    private async decryptWithAes(encryptedData: Uint8Array, key: Uint8Array, iv: Uint8Array): Promise<Uint8Array> {
-        try {
-            // Import the raw AES key
-            const cryptoKey = await crypto.subtle.importKey(
-                "raw",
-                key,
-                {
-                    name: "AES-CBC",
-                    length: 256,
-                },
-                false,
-                ["decrypt"],
-            );
-
-            // Decrypt the data
-            const decryptedData = await crypto.subtle.decrypt(
-                {
-                    name: "AES-CBC",
-                    iv,
-                },
-                cryptoKey,
-                encryptedData,
-            );
+    private async decryptWithAes(
+        encryptedData: Uint8Array,
+        key: Uint8Array | CryptoKey,
+        iv: Uint8Array,
+        suite: CipherSuite,
+    ): Promise<Uint8Array> {
+        const params = this.getAesParams(suite, iv);
+
+        // Import the raw AES key, session keys are imported already
+        const cryptoKey = key instanceof CryptoKey ? key : await crypto.subtle.importKey(
+            "raw",
+            key,
+            {
+                name: params.name,
+                length: 256,
+            },
+            false,
+            ["decrypt"],
+        );
 
+        try {
+            // Decrypt the data, AES-GCM verifies the authentication tag first
+            const decryptedData = await crypto.subtle.decrypt(params, cryptoKey, encryptedData);
             return new Uint8Array(decryptedData);
         } catch (error) {
+            if (suite === CipherSuite.AES_GCM) {
+                throw new Error("Message authentication failed, the message was tampered with or corrupted");
+            }
             cryptoLogger.error("Failed to decrypt with AES", error as Error);
             throw error;
         }
     }
 
+    /**
+     * Get the suite of a received envelope
+     * @throws If the version is unknown, or is legacy AES-CBC while it is not allowed or another suite was negotiated
+     */
+    private getEnvelopeSuite(version: unknown): CipherSuite {
+        const suite = version === undefined
+            ? CipherSuite.AES_CBC
+            : (Object.keys(ENVELOPE_VERSIONS) as CipherSuite[]).find((suite) => ENVELOPE_VERSIONS[suite] === version);
+        if (!suite) {
+            throw new Error(`Unsupported envelope version: ${JSON.stringify(version)}`);
+        }
+
+        // Once negotiated, other suites are downgrade attempts
+        const allowed = this.suite ? suite === this.suite : this.getSupportedSuites().includes(suite);
+        if (!allowed) {
+            throw new Error(`Rejected ${suite} message, expected ${this.suite ?? CipherSuite.AES_GCM}`);
+        }
+        return suite;
+    }
+
     /**
      * Hybrid encryption (RSA+AES)
      */
     private async encryptHybrid(data: Uint8Array): Promise<string> {
         try {
+            const suite = this.getSuite();
+            if (this.usesSessionKeys()) {
+                return JSON.stringify(await this.sign(await this.encryptWithSession(data)));
+            }
+
             // Generate random AES key and IV
-            const { key, iv } = await this.generateRandomAesKey();
+            const { key, iv } = await this.generateRandomAesKey(suite);
 
             // Encrypt the data with AES
-            const encryptedData = await this.encryptWithAes(data, key, iv);
+            const encryptedData = await this.encryptWithAes(data, key, iv, suite);
 
             // Encrypt the AES key with RSA
             const encryptedKey = await this.encryptAesKeyWithRsa(key);
 
             // Create the encrypted message object
-            const encryptedMessage = {
+            const encryptedMessage: Envelope = {
+                v: ENVELOPE_VERSIONS[suite], // Suite version, omitted from legacy envelopes by JSON.stringify
                 k: encryptedKey, // Encrypted AES key
                 i: encodeBase64(iv), // Initialization vector
                 d: encodeBase64(encryptedData), // Encrypted data
             };
 
             // Convert to JSON string
-            return JSON.stringify(encryptedMessage);
+            return JSON.stringify(await this.sign(encryptedMessage));
         } catch (error) {
             cryptoLogger.error("Hybrid encryption failed", error as Error);
             throw error;
         }
     }
 
+    /**
+     * Encrypt with the session key, attaching the wrapped key until the server confirms it
+     */
+    private async encryptWithSession(data: Uint8Array): Promise<Envelope> {
+        const session = await this.getSendingSession();
+        const iv = this.nextNonce(session);
+        const encryptedData = await this.encryptWithAes(data, session.key, iv, CipherSuite.AES_GCM);
+
+        return {
+            v: ENVELOPE_VERSIONS[CipherSuite.AES_GCM],
+            s: session.id,
+            k: session.confirmed ? undefined : session.wrappedKey,
+            i: encodeBase64(iv),
+            d: encodeBase64(encryptedData),
+        };
+    }
+
     /**
      * Hybrid decryption (RSA+AES)
      */
     private async decryptHybrid(encryptedMessage: string): Promise<string> {
         try {
             // Parse the encrypted message
-            const parsedMessage = JSON.parse(encryptedMessage);
+            const parsedMessage: Envelope = JSON.parse(encryptedMessage);
 
             // Check required fields
-            if (!parsedMessage.k || !parsedMessage.i || !parsedMessage.d) {
+            if ((!parsedMessage.k && !parsedMessage.s) || !parsedMessage.i || !parsedMessage.d) {
                 throw new Error("Invalid encrypted message format, missing required fields");
             }
 
+            // Authenticate the sender before touching the contents
+            await this.verify(parsedMessage);
+            const suite = this.getEnvelopeSuite(parsedMessage.v);
+
             // Extract components
-            const encryptedKey = parsedMessage.k;
             const iv = decodeBase64(parsedMessage.i);
             const encryptedData = decodeBase64(parsedMessage.d);
 
-            // Decrypt the AES key with RSA
-            const aesKey = await this.decryptAesKeyWithRsa(encryptedKey);
+            // Use the session key the server names, else decrypt the per-message AES key with RSA
+            let aesKey: Uint8Array | CryptoKey;
+            if (typeof parsedMessage.s === "string" && !parsedMessage.k) {
+                if (!this.usesSessionKeys()) {
+                    throw new Error("Session keys were not negotiated");
+                }
+                aesKey = this.receiveSession(parsedMessage.s).key;
+            } else {
+                aesKey = await this.decryptAesKeyWithRsa(parsedMessage.k!);
+            }
 
             // Decrypt the data with AES
-            const decryptedData = await this.decryptWithAes(encryptedData, aesKey, iv);
+            const decryptedData = await this.decryptWithAes(encryptedData, aesKey, iv, suite);
 
             // Convert to string
             const decoder = new TextDecoder();
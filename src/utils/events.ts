@@ -0,0 +1,122 @@
+/**
+ * Event Hub Module
+ * Multiplexes HUD syncs, worker logs, worker status changes and game events for local subscribers.
+ */
+
+/**
+ * Event categories
+ */
+export type StreamEventType = "hud" | "log" | "status" | "game";
+
+/**
+ * Event delivered to subscribers
+ */
+export interface StreamEvent {
+    id: number;
+    type: StreamEventType;
+    event?: string; // Game message type or log level, e.g. "playerKilled" or "warn"
+    bot?: string;
+    data: unknown;
+    timestamp: number;
+}
+
+/**
+ * Subscriber filter, an empty or missing list matches everything
+ */
+export interface StreamFilter {
+    bots?: string[];
+    types?: string[]; // Event categories or specific events
+}
+
+type EventHandler = (event: StreamEvent) => void;
+
+/**
+ * Check whether an event passes a filter
+ */
+export function matchesFilter(event: StreamEvent, filter: StreamFilter): boolean {
+    if (filter.bots?.length && (!event.bot || !filter.bots.includes(event.bot))) {
+        return false;
+    }
+    if (filter.types?.length && !filter.types.includes(event.type) && !(event.event && filter.types.includes(event.event))) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Build a filter from query parameters
+ * Accepts repeated or comma-separated values, e.g. ?bot=alice,bob&type=hud&type=playerKilled
+ */
+export function parseFilter(params: URLSearchParams): StreamFilter {
+    const read = (key: string) =>
+        params.getAll(key)
+            .flatMap((value) => value.split(","))
+            .map((value) => value.trim())
+            .filter(Boolean);
+
+    return { bots: read("bot"), types: read("type") };
+}
+
+/**
+ * Event hub class
+ * Publishers never block on subscribers, a failing subscriber is dropped.
+ */
+export class EventHub {
+    private static instance: EventHub;
+    private subscribers: Map<EventHandler, StreamFilter> = new Map();
+    private nextId: number = 1;
+
+    /**
+     * Get the singleton instance of EventHub
+     */
+    public static getInstance(): EventHub {
+        if (!EventHub.instance) {
+            EventHub.instance = new EventHub();
+        }
+        return EventHub.instance;
+    }
+
+    /**
+     * Subscribe to events
+     * @param handler Called for every matching event
+     * @param filter Events to receive
+     * @returns Function that removes the subscription
+     */
+    public subscribe(handler: EventHandler, filter: StreamFilter = {}): () => void {
+        this.subscribers.set(handler, filter);
+        return () => this.subscribers.delete(handler);
+    }
+
+    /**
+     * Replace the filter of an existing subscription
+     */
+    public setFilter(handler: EventHandler, filter: StreamFilter): void {
+        if (this.subscribers.has(handler)) {
+            this.subscribers.set(handler, filter);
+        }
+    }
+
+    /**
+     * Publish an event to all matching subscribers
+     */
+    public publish(type: StreamEventType, data: unknown, bot?: string, event?: string): void {
+        if (this.subscribers.size === 0) return;
+
+        const streamEvent: StreamEvent = { id: this.nextId++, type, event, bot, data, timestamp: Date.now() };
+        for (const [handler, filter] of this.subscribers) {
+            if (!matchesFilter(streamEvent, filter)) continue;
+            try {
+                handler(streamEvent);
+            } catch {
+                this.subscribers.delete(handler);
+            }
+        }
+    }
+
+    /**
+     * Number of active subscribers
+     */
+    public getSubscriberCount(): number {
+        return this.subscribers.size;
+    }
+}
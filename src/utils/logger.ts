@@ -1,6 +1,8 @@
 /**
  * Logger Module
+ * Structured logging with bot, worker and match fields, written to configurable sinks.
  */
+import { dirname, join } from "@std/path";
 
 export enum LogLevel {
     DEBUG = 0,
@@ -9,19 +11,280 @@ export enum LogLevel {
     ERROR = 3,
 }
 
+export type LogFormat = "json" | "pretty";
+
+/**
+ * Structured fields attached to log records
+ */
+export interface LogFields {
+    bot?: string;
+    worker?: string;
+    match?: string;
+    [key: string]: string | number | boolean | undefined;
+}
+
+/**
+ * Single log entry passed to sinks
+ */
+export interface LogRecord {
+    timestamp: string;
+    level: LogLevel;
+    prefix?: string;
+    message: string;
+    fields: LogFields;
+    error?: string; // Stack trace or message of an attached error
+}
+
+/**
+ * Destination for log records
+ */
+export interface LogSink {
+    write(record: LogRecord): void;
+    close?(): void;
+}
+
+/**
+ * File sink settings
+ */
+export interface LogFileSettings {
+    dir?: string;
+    format?: LogFormat;
+    maxBytes?: number; // Size at which a file is rotated
+    maxFiles?: number; // Rotated files kept per log file
+    perBot?: boolean; // One file per bot under <dir>/bots
+    combined?: boolean; // One file with all records
+}
+
+/**
+ * Logging settings interface
+ */
+export interface LoggingSettings {
+    level?: string;
+    format?: LogFormat; // Console format
+    files?: LogFileSettings | false;
+    prefixes?: Record<string, string>; // Level per logger prefix, e.g. { "Crypto": "debug" }
+    bots?: Record<string, string>; // Level per bot, applies to everything logged for or by its worker
+}
+
+/**
+ * Global level and overrides, the most specific one applies: bot, then prefix, then global
+ */
+export interface LogLevelSettings {
+    level: string;
+    prefixes: Record<string, string>;
+    bots: Record<string, string>;
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Parse a level name, unknown names fall back to INFO
+ */
+export function parseLogLevel(level: string): LogLevel {
+    switch (level.toUpperCase()) {
+        case "DEBUG":
+            return LogLevel.DEBUG;
+        case "WARN":
+            return LogLevel.WARN;
+        case "ERROR":
+            return LogLevel.ERROR;
+        default:
+            return LogLevel.INFO;
+    }
+}
+
+/**
+ * Check if a string names a log level
+ */
+export function isLogLevel(level: string): boolean {
+    return ["DEBUG", "INFO", "WARN", "ERROR"].includes(level.toUpperCase());
+}
+
+/**
+ * Format a record as a JSON line or as pretty text
+ */
+export function formatRecord(record: LogRecord, format: LogFormat): string {
+    const level = LogLevel[record.level];
+    const fields = Object.entries(record.fields).filter(([_, value]) => value !== undefined);
+
+    if (format === "json") {
+        return JSON.stringify({
+            timestamp: record.timestamp,
+            level: level.toLowerCase(),
+            prefix: record.prefix,
+            message: record.message,
+            ...Object.fromEntries(fields),
+            error: record.error,
+        });
+    }
+
+    const parts = [`[${record.timestamp}]`, `[${level}]`];
+    if (record.prefix) parts.push(`[${record.prefix}]`);
+    if (fields.length) parts.push(`[${fields.map(([key, value]) => `${key}=${value}`).join(" ")}]`);
+    parts.push(record.message);
+
+    const line = parts.join(" ");
+    return record.error ? `${line}\n${record.error}` : line;
+}
+
+/**
+ * Sink writing to the console
+ */
+export class ConsoleSink implements LogSink {
+    private format: LogFormat;
+
+    constructor(format: LogFormat = "pretty") {
+        this.format = format;
+    }
+
+    write(record: LogRecord): void {
+        const line = formatRecord(record, this.format);
+        switch (record.level) {
+            case LogLevel.DEBUG:
+                console.debug(line);
+                break;
+            case LogLevel.INFO:
+                console.info(line);
+                break;
+            case LogLevel.WARN:
+                console.warn(line);
+                break;
+            default:
+                console.error(line);
+        }
+    }
+}
+
+/**
+ * Sink appending to a file that is rotated by size
+ * Rotated files are renamed to <path>.1 (newest) up to <path>.<maxFiles>.
+ */
+export class RotatingFileSink implements LogSink {
+    private path: string;
+    private format: LogFormat;
+    private maxBytes: number;
+    private maxFiles: number;
+    private file: Deno.FsFile | null = null;
+    private size = 0;
+    private encoder = new TextEncoder();
+
+    constructor(path: string, options: { format?: LogFormat; maxBytes?: number; maxFiles?: number } = {}) {
+        this.path = path;
+        this.format = options.format ?? "json";
+        this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+        this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+    }
+
+    write(record: LogRecord): void {
+        const data = this.encoder.encode(formatRecord(record, this.format) + "\n");
+        try {
+            if (this.file && this.size > 0 && this.size + data.length > this.maxBytes) {
+                this.rotate();
+            }
+            const file = this.open();
+            file.writeSync(data);
+            this.size += data.length;
+        } catch (error) {
+            // Logging must never take the process down, fall back to stderr
+            console.error(`Failed to write log file ${this.path}: ${error}`);
+        }
+    }
+
+    close(): void {
+        this.file?.close();
+        this.file = null;
+    }
+
+    private open(): Deno.FsFile {
+        if (!this.file) {
+            Deno.mkdirSync(dirname(this.path), { recursive: true });
+            this.file = Deno.openSync(this.path, { create: true, append: true });
+            this.size = this.file.statSync().size;
+        }
+        return this.file;
+    }
+
+    private rotate(): void {
+        this.close();
+        for (let i = this.maxFiles - 1; i >= 1; i--) {
+            try {
+                Deno.renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+            } catch {
+                // Not rotated that far yet
+            }
+        }
+        if (this.maxFiles > 0) {
+            Deno.renameSync(this.path, `${this.path}.1`);
+        } else {
+            Deno.removeSync(this.path);
+        }
+        this.size = 0;
+    }
+}
+
+/**
+ * Sink writing records with a bot field to one rotating file per bot
+ */
+export class BotFileSink implements LogSink {
+    private dir: string;
+    private options: { format?: LogFormat; maxBytes?: number; maxFiles?: number };
+    private files: Map<string, RotatingFileSink> = new Map();
+
+    constructor(dir: string, options: { format?: LogFormat; maxBytes?: number; maxFiles?: number } = {}) {
+        this.dir = dir;
+        this.options = options;
+    }
+
+    write(record: LogRecord): void {
+        const bot = record.fields.bot;
+        if (!bot || !/^[A-Za-z0-9_]+$/.test(bot)) {
+            return;
+        }
+
+        let sink = this.files.get(bot);
+        if (!sink) {
+            sink = new RotatingFileSink(join(this.dir, `${bot}.log`), this.options);
+            this.files.set(bot, sink);
+        }
+        sink.write(record);
+    }
+
+    close(): void {
+        for (const sink of this.files.values()) {
+            sink.close();
+        }
+        this.files.clear();
+    }
+}
+
+/**
+ * State shared by a logger and all loggers derived from it
+ */
+interface LoggerCore {
+    level: LogLevel;
+    prefixLevels: Map<string, LogLevel>;
+    botLevels: Map<string, LogLevel>;
+    sinks: LogSink[];
+    fields: LogFields; // Added to every record, e.g. the current match
+}
+
 /**
  * Logger class for application logging
  */
 export class Logger {
     private static instance: Logger;
-    private level: LogLevel = LogLevel.INFO;
-    private prefix: string = "";
+    private core: LoggerCore;
+    private prefix: string;
+    private fields: LogFields;
 
     /**
      * Constructor for Logger
      */
-    private constructor(prefix: string = "") {
+    private constructor(core: LoggerCore, prefix: string = "", fields: LogFields = {}) {
+        this.core = core;
         this.prefix = prefix;
+        this.fields = fields;
     }
 
     /**
@@ -29,7 +292,13 @@ export class Logger {
      */
     public static getInstance(): Logger {
         if (!Logger.instance) {
-            Logger.instance = new Logger();
+            Logger.instance = new Logger({
+                level: LogLevel.INFO,
+                prefixLevels: new Map(),
+                botLevels: new Map(),
+                sinks: [new ConsoleSink()],
+                fields: {},
+            });
         }
         return Logger.instance;
     }
@@ -38,82 +307,184 @@ export class Logger {
      * Create a new logger with a prefix
      */
     public withPrefix(prefix: string): Logger {
-        const newLogger = new Logger(prefix);
-        newLogger.level = this.level;
-        return newLogger;
+        return new Logger(this.core, prefix, this.fields);
+    }
+
+    /**
+     * Create a new logger that adds fields to every record
+     */
+    public withFields(fields: LogFields): Logger {
+        return new Logger(this.core, this.prefix, { ...this.fields, ...fields });
     }
 
     /**
-     * Set log level
+     * Set log level, shared by all derived loggers
      */
     setLevel(level: string): void {
-        switch (level.toUpperCase()) {
-            case "DEBUG":
-                this.level = LogLevel.DEBUG;
-                break;
-            case "INFO":
-                this.level = LogLevel.INFO;
-                break;
-            case "WARN":
-                this.level = LogLevel.WARN;
-                break;
-            case "ERROR":
-                this.level = LogLevel.ERROR;
-                break;
-            default:
-                this.level = LogLevel.INFO;
+        this.core.level = parseLogLevel(level);
+    }
+
+    /**
+     * Get log level
+     */
+    getLevel(): LogLevel {
+        return this.core.level;
+    }
+
+    /**
+     * Set the level of all loggers with a prefix
+     * @param level Level name, or null to use the global level again
+     */
+    setPrefixLevel(prefix: string, level: string | null): void {
+        if (level === null) {
+            this.core.prefixLevels.delete(prefix);
+        } else {
+            this.core.prefixLevels.set(prefix, parseLogLevel(level));
+        }
+    }
+
+    /**
+     * Set the level of all records with a bot field
+     * @param level Level name, or null to use the prefix or global level again
+     */
+    setBotLevel(bot: string, level: string | null): void {
+        if (level === null) {
+            this.core.botLevels.delete(bot);
+        } else {
+            this.core.botLevels.set(bot, parseLogLevel(level));
+        }
+    }
+
+    /**
+     * Get the global level and all overrides
+     */
+    getLevels(): LogLevelSettings {
+        const names = (levels: Map<string, LogLevel>) =>
+            Object.fromEntries([...levels].map(([key, level]) => [key, LogLevel[level].toLowerCase()]));
+        return {
+            level: LogLevel[this.core.level].toLowerCase(),
+            prefixes: names(this.core.prefixLevels),
+            bots: names(this.core.botLevels),
+        };
+    }
+
+    /**
+     * Replace the global level and all overrides, e.g. with levels received from the main thread
+     */
+    setLevels(settings: Partial<LogLevelSettings>): void {
+        this.setLevel(settings.level ?? "info");
+        this.core.prefixLevels.clear();
+        this.core.botLevels.clear();
+        for (const [prefix, level] of Object.entries(settings.prefixes ?? {})) {
+            this.setPrefixLevel(prefix, level);
+        }
+        for (const [bot, level] of Object.entries(settings.bots ?? {})) {
+            this.setBotLevel(bot, level);
+        }
+    }
+
+    /**
+     * Replace the sinks, closing the previous ones
+     */
+    setSinks(sinks: LogSink[]): void {
+        for (const sink of this.core.sinks) {
+            sink.close?.();
+        }
+        this.core.sinks = sinks;
+    }
+
+    /**
+     * Set fields added to all records of all loggers, undefined values remove a field
+     */
+    setGlobalFields(fields: LogFields): void {
+        this.core.fields = { ...this.core.fields, ...fields };
+    }
+
+    /**
+     * Log a message at the given level
+     * @param error Error, or an already formatted stack trace, e.g. forwarded from a worker
+     */
+    log(level: LogLevel, message: string, error?: Error | string): void {
+        const fields = { ...this.core.fields, ...this.fields };
+        if (level < this.getEffectiveLevel(fields.bot)) {
+            return;
+        }
+
+        const record: LogRecord = {
+            timestamp: new Date().toISOString(),
+            level,
+            prefix: this.prefix || undefined,
+            message,
+            fields,
+            error: typeof error === "string" ? error : error ? error.stack || error.message : undefined,
+        };
+        for (const sink of this.core.sinks) {
+            sink.write(record);
         }
     }
 
     /**
-     * Format log message
+     * Get the level that applies to this logger's records
      */
-    private format(level: string, message: string): string {
-        const timestamp = new Date().toISOString();
-        return this.prefix ? `[${timestamp}] [${level}] [${this.prefix}] ${message}` : `[${timestamp}] [${level}] ${message}`;
+    private getEffectiveLevel(bot?: string): LogLevel {
+        return (bot !== undefined ? this.core.botLevels.get(bot) : undefined) ?? this.core.prefixLevels.get(this.prefix) ??
+            this.core.level;
     }
 
     /**
      * Log debug message
      */
     debug(message: string): void {
-        if (this.level <= LogLevel.DEBUG) {
-            console.debug(this.format("DEBUG", message));
-        }
+        this.log(LogLevel.DEBUG, message);
     }
 
     /**
      * Log info message
      */
     info(message: string): void {
-        if (this.level <= LogLevel.INFO) {
-            console.info(this.format("INFO", message));
-        }
+        this.log(LogLevel.INFO, message);
     }
 
     /**
      * Log warning message
      */
     warn(message: string): void {
-        if (this.level <= LogLevel.WARN) {
-            console.warn(this.format("WARN", message));
-        }
+        this.log(LogLevel.WARN, message);
     }
 
     /**
      * Log error message
      */
     error(message: string, error?: Error): void {
-        if (this.level <= LogLevel.ERROR) {
-            const formattedMessage = error
-                ? `${this.format("ERROR", message)}\n${error.stack || error.message}`
-                : this.format("ERROR", message);
-
-            console.error(formattedMessage);
-        }
+        this.log(LogLevel.ERROR, message, error);
     }
 }
 
 // Create and export singleton instance
 export const logger = Logger.getInstance();
 export default logger;
+
+/**
+ * Configure the level and sinks of the main process from the settings
+ * @param settings Logging settings, console-only pretty logging by default
+ */
+export function configureLogging(settings: LoggingSettings = {}): void {
+    logger.setLevels({ level: settings.level, prefixes: settings.prefixes, bots: settings.bots });
+
+    const sinks: LogSink[] = [new ConsoleSink(settings.format ?? "pretty")];
+    if (settings.files) {
+        const dir = settings.files.dir ?? "logs";
+        const options = {
+            format: settings.files.format ?? "json",
+            maxBytes: settings.files.maxBytes ?? DEFAULT_MAX_BYTES,
+            maxFiles: settings.files.maxFiles ?? DEFAULT_MAX_FILES,
+        };
+        if (settings.files.combined ?? true) {
+            sinks.push(new RotatingFileSink(join(dir, "combined.log"), options));
+        }
+        if (settings.files.perBot ?? true) {
+            sinks.push(new BotFileSink(join(dir, "bots"), options));
+        }
+    }
+    logger.setSinks(sinks);
+}
@@ -0,0 +1,195 @@
+/**
+ * Metrics Module
+ * Counters, gauges and histograms rendered in the Prometheus text exposition format.
+ */
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return "";
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
+
+/**
+ * Base class for metrics, values are kept per label set
+ */
+abstract class Metric<T> {
+    public readonly name: string;
+    public readonly help: string;
+    protected values: Map<string, { labels: Labels; value: T }> = new Map();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    protected abstract readonly type: string;
+
+    protected abstract renderValue(labels: Labels, value: T): string[];
+
+    protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+        const key = JSON.stringify(Object.entries(labels).sort());
+        let entry = this.values.get(key);
+        if (!entry) {
+            entry = { labels, value: initial() };
+            this.values.set(key, entry);
+        }
+        return entry;
+    }
+
+    /**
+     * Remove the value of a label set, e.g. for a bot that no longer exists
+     */
+    public remove(labels: Labels = {}): void {
+        this.values.delete(JSON.stringify(Object.entries(labels).sort()));
+    }
+
+    /**
+     * Remove all values
+     */
+    public reset(): void {
+        this.values.clear();
+    }
+
+    public render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} ${this.type}`,
+            ...[...this.values.values()].flatMap(({ labels, value }) => this.renderValue(labels, value)),
+        ];
+    }
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends Metric<number> {
+    protected readonly type = "counter";
+
+    public inc(labels: Labels = {}, value: number = 1): void {
+        this.entry(labels, () => 0).value += value;
+    }
+
+    protected renderValue(labels: Labels, value: number): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+    }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<number> {
+    protected readonly type = "gauge";
+
+    public set(labels: Labels, value: number): void {
+        this.entry(labels, () => 0).value = value;
+    }
+
+    protected renderValue(labels: Labels, value: number): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+    }
+}
+
+/**
+ * Distribution of observed values in cumulative buckets
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+    protected readonly type = "histogram";
+    private buckets: number[];
+
+    constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+        super(name, help);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    public observe(labels: Labels, value: number): void {
+        const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+        this.buckets.forEach((bucket, i) => {
+            if (value <= bucket) entry.counts[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    protected renderValue(labels: Labels, value: { counts: number[]; sum: number; count: number }): string[] {
+        return [
+            ...this.buckets.map((bucket, i) =>
+                `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bucket) })} ${value.counts[i]}`
+            ),
+            `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+            `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+            `${this.name}_count${formatLabels(labels)} ${value.count}`,
+        ];
+    }
+}
+
+/**
+ * Metrics registry class
+ * Collectors run before every scrape to refresh gauges that mirror existing state.
+ */
+export class MetricsRegistry {
+    private static instance: MetricsRegistry;
+    private metrics: Map<string, Metric<unknown>> = new Map();
+    private collectors: (() => void)[] = [];
+
+    /**
+     * Get the singleton instance of MetricsRegistry
+     */
+    public static getInstance(): MetricsRegistry {
+        if (!MetricsRegistry.instance) {
+            MetricsRegistry.instance = new MetricsRegistry();
+        }
+        return MetricsRegistry.instance;
+    }
+
+    private register<T extends Metric<unknown>>(name: string, create: () => T): T {
+        const existing = this.metrics.get(name);
+        if (existing) return existing as T;
+
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+
+    public counter(name: string, help: string): Counter {
+        return this.register(name, () => new Counter(name, help));
+    }
+
+    public gauge(name: string, help: string): Gauge {
+        return this.register(name, () => new Gauge(name, help));
+    }
+
+    public histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(name, () => new Histogram(name, help, buckets));
+    }
+
+    /**
+     * Add a function that updates metrics right before they are rendered
+     */
+    public addCollector(collector: () => void): void {
+        this.collectors.push(collector);
+    }
+
+    /**
+     * Render all metrics in the Prometheus text format
+     */
+    public render(): string {
+        for (const collector of this.collectors) {
+            collector();
+        }
+        return [...this.metrics.values()].flatMap((metric) => metric.render()).join("\n") + "\n";
+    }
+}
@@ -0,0 +1,340 @@
+/**
+ * Schema Module
+ * Declarative schemas that check parsed config files, fill in defaults and report issues by JSON path, e.g. $.websocket.port
+ */
+
+/**
+ * Problem found at a JSON path
+ */
+export interface SchemaIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Result of a validation
+ * Errors make the value unusable, warnings (e.g. unknown keys) do not.
+ */
+export interface ValidationResult<T> {
+    value: T;
+    errors: SchemaIssue[];
+    warnings: SchemaIssue[];
+}
+
+type Issues = Pick<ValidationResult<unknown>, "errors" | "warnings">;
+
+// Returned for values that failed validation, the error is already recorded
+const INVALID = Symbol("invalid");
+type Checked<T> = T | typeof INVALID;
+
+/**
+ * Schema of any type, for object fields and union options
+ */
+interface AnySchema {
+    readonly isOptional: boolean;
+    readonly defaultValue?: unknown;
+    readonly expected: string;
+    validate(value: unknown, path: string, issues: Issues): unknown;
+}
+
+/**
+ * Describe a value for error messages, e.g. string "8888"
+ */
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "object") return "object";
+    return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Base class for schemas
+ */
+export abstract class Schema<T> {
+    public isOptional = false;
+    public defaultValue?: T;
+    private refinements: ((value: T) => string | undefined)[] = [];
+
+    /**
+     * Expected type for error messages
+     */
+    public abstract readonly expected: string;
+
+    protected abstract check(value: unknown, path: string, issues: Issues): Checked<T>;
+
+    /**
+     * Allow the value to be missing
+     */
+    public optional(): Schema<T | undefined> {
+        const copy = this.copy();
+        copy.isOptional = true;
+        return copy as Schema<T | undefined>;
+    }
+
+    /**
+     * Use a value when the key is missing
+     */
+    public default(value: T): Schema<T> {
+        const copy = this.copy();
+        copy.defaultValue = value;
+        return copy;
+    }
+
+    /**
+     * Add a check that runs after the type check
+     * @param refinement Returns an error message for invalid values
+     */
+    public refine(refinement: (value: T) => string | undefined): Schema<T> {
+        const copy = this.copy();
+        copy.refinements = [...this.refinements, refinement];
+        return copy;
+    }
+
+    /**
+     * Validate a value, recording issues below the given path
+     */
+    public validate(value: unknown, path: string, issues: Issues): Checked<T> {
+        const checked = this.check(value, path, issues);
+        if (checked === INVALID) {
+            return INVALID;
+        }
+
+        for (const refinement of this.refinements) {
+            const message = refinement(checked);
+            if (message) {
+                issues.errors.push({ path, message });
+                return INVALID;
+            }
+        }
+        return checked;
+    }
+
+    private copy(): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+    }
+
+    protected fail(path: string, issues: Issues, value: unknown): typeof INVALID {
+        issues.errors.push({ path, message: `expected ${this.expected}, got ${describe(value)}` });
+        return INVALID;
+    }
+}
+
+class StringSchema extends Schema<string> {
+    public readonly expected = "string";
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<string> {
+        return typeof value === "string" ? value : this.fail(path, issues, value);
+    }
+}
+
+class NumberSchema extends Schema<number> {
+    public readonly expected: string;
+    private options: { integer?: boolean; min?: number; max?: number };
+
+    constructor(options: { integer?: boolean; min?: number; max?: number }) {
+        super();
+        this.options = options;
+
+        const { integer, min, max } = options;
+        const range = min !== undefined && max !== undefined
+            ? ` between ${min} and ${max}`
+            : min !== undefined
+            ? ` >= ${min}`
+            : max !== undefined
+            ? ` <= ${max}`
+            : "";
+        this.expected = `${integer ? "integer" : "number"}${range}`;
+    }
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<number> {
+        const { integer, min, max } = this.options;
+        if (
+            typeof value !== "number" || !Number.isFinite(value) || (integer && !Number.isInteger(value)) ||
+            (min !== undefined && value < min) || (max !== undefined && value > max)
+        ) {
+            return this.fail(path, issues, value);
+        }
+        return value;
+    }
+}
+
+class BooleanSchema extends Schema<boolean> {
+    public readonly expected = "boolean";
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<boolean> {
+        return typeof value === "boolean" ? value : this.fail(path, issues, value);
+    }
+}
+
+class OneOfSchema<T extends string | number | boolean> extends Schema<T> {
+    public readonly expected: string;
+    private values: readonly T[];
+
+    constructor(values: readonly T[]) {
+        super();
+        this.values = values;
+        this.expected = values.length === 1 ? JSON.stringify(values[0]) : `one of ${values.map((v) => JSON.stringify(v)).join(", ")}`;
+    }
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<T> {
+        return this.values.includes(value as T) ? value as T : this.fail(path, issues, value);
+    }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+    public readonly expected = "array";
+    private item: Schema<T>;
+
+    constructor(item: Schema<T>) {
+        super();
+        this.item = item;
+    }
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<T[]> {
+        if (!Array.isArray(value)) {
+            return this.fail(path, issues, value);
+        }
+
+        const items = value.map((item, i) => this.item.validate(item, `${path}[${i}]`, issues));
+        return items.includes(INVALID) ? INVALID : items as T[];
+    }
+}
+
+class RecordSchema<T> extends Schema<Record<string, T>> {
+    public readonly expected = "object";
+    private item: Schema<T>;
+
+    constructor(item: Schema<T>) {
+        super();
+        this.item = item;
+    }
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<Record<string, T>> {
+        if (!isPlainObject(value)) {
+            return this.fail(path, issues, value);
+        }
+
+        const entries = Object.entries(value).map(([key, item]) => [key, this.item.validate(item, childPath(path, key), issues)]);
+        return entries.some(([_, item]) => item === INVALID) ? INVALID : Object.fromEntries(entries);
+    }
+}
+
+type Shape = Record<string, AnySchema>;
+
+class ObjectSchema<T> extends Schema<T> {
+    public readonly expected = "object";
+    private shape: Shape;
+    private open: boolean;
+
+    constructor(shape: Shape, open: boolean) {
+        super();
+        this.shape = shape;
+        this.open = open;
+    }
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<T> {
+        if (!isPlainObject(value)) {
+            return this.fail(path, issues, value);
+        }
+
+        let valid = true;
+        const result: Record<string, unknown> = {};
+        for (const [key, schema] of Object.entries(this.shape)) {
+            const keyPath = childPath(path, key);
+            if (value[key] === undefined) {
+                if (schema.defaultValue !== undefined) {
+                    result[key] = structuredClone(schema.defaultValue);
+                } else if (!schema.isOptional) {
+                    issues.errors.push({ path: keyPath, message: `missing required ${schema.expected}` });
+                    valid = false;
+                }
+                continue;
+            }
+
+            const checked = schema.validate(value[key], keyPath, issues);
+            if (checked === INVALID) {
+                valid = false;
+            } else {
+                result[key] = checked;
+            }
+        }
+
+        for (const key of Object.keys(value)) {
+            if (key in this.shape) continue;
+            if (this.open) {
+                result[key] = value[key];
+            } else {
+                issues.warnings.push({
+                    path: childPath(path, key),
+                    message: `unknown key, expected one of ${Object.keys(this.shape).join(", ")}`,
+                });
+            }
+        }
+
+        return valid ? result as T : INVALID;
+    }
+}
+
+class UnionSchema<T> extends Schema<T> {
+    public readonly expected: string;
+    private options: AnySchema[];
+
+    constructor(options: AnySchema[]) {
+        super();
+        this.options = options;
+        this.expected = options.map((option) => option.expected).join(" or ");
+    }
+
+    protected check(value: unknown, path: string, issues: Issues): Checked<T> {
+        for (const option of this.options) {
+            const attempt: Issues = { errors: [], warnings: [] };
+            const checked = option.validate(value, path, attempt);
+            if (checked !== INVALID) {
+                issues.warnings.push(...attempt.warnings);
+                return checked as T;
+            }
+            // The type matched but something inside is wrong, report that instead of the type mismatch
+            if (attempt.errors.every((error) => error.path !== path)) {
+                issues.errors.push(...attempt.errors);
+                issues.warnings.push(...attempt.warnings);
+                return INVALID;
+            }
+        }
+        return this.fail(path, issues, value);
+    }
+}
+
+/**
+ * Schema factories
+ */
+export const schema = {
+    string: (): Schema<string> => new StringSchema(),
+    number: (options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> => new NumberSchema(options),
+    boolean: (): Schema<boolean> => new BooleanSchema(),
+    oneOf: <T extends string | number | boolean>(...values: T[]): Schema<T> => new OneOfSchema(values),
+    array: <T>(item: Schema<T>): Schema<T[]> => new ArraySchema(item),
+    record: <T>(item: Schema<T>): Schema<Record<string, T>> => new RecordSchema(item),
+    /**
+     * Object with known keys, unknown keys are warned about and dropped unless the object is open
+     */
+    object: <T>(shape: Shape, options: { open?: boolean } = {}): Schema<T> => new ObjectSchema<T>(shape, options.open ?? false),
+    union: <T>(...options: AnySchema[]): Schema<T> => new UnionSchema<T>(options),
+};
+
+/**
+ * Validate a value against a schema
+ * @returns The value with defaults applied and unknown keys of closed objects removed, the issues
+ */
+export function validate<T>(target: Schema<T>, value: unknown): ValidationResult<T | undefined> {
+    const issues: Issues = { errors: [], warnings: [] };
+    const checked = target.validate(value, "$", issues);
+    return { value: checked === INVALID ? undefined : checked, ...issues };
+}
@@ -0,0 +1,79 @@
+/**
+ * Tracing Module
+ * OpenTelemetry spans for the server, workers and WebSocket messages.
+ * Deno exports them over OTLP when started with --unstable-otel (see the dev task) and OTEL_DENO=true,
+ * OTEL_EXPORTER_OTLP_ENDPOINT selects the collector (default http://localhost:4318). Otherwise all spans are no-ops.
+ */
+import { Attributes, Context, context, isSpanContextValid, Span, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+
+export const tracer = trace.getTracer("blockassassin");
+
+/**
+ * W3C trace context carried across postMessage, e.g. inside WorkerMessage
+ */
+export interface TraceContext {
+    traceparent: string;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Serialize the span of a context
+ * @param ctx Context to serialize, the active one by default
+ * @returns The trace context, or undefined if no span is recording
+ */
+export function injectContext(ctx: Context = context.active()): TraceContext | undefined {
+    const spanContext = trace.getSpanContext(ctx);
+    if (!spanContext || !isSpanContextValid(spanContext)) {
+        return undefined;
+    }
+
+    const flags = spanContext.traceFlags.toString(16).padStart(2, "0");
+    return { traceparent: `00-${spanContext.traceId}-${spanContext.spanId}-${flags}` };
+}
+
+/**
+ * Restore a context serialized by injectContext
+ * @param carrier Trace context received with a message
+ * @returns Context whose spans continue the remote trace, or the active context if the carrier is missing or invalid
+ */
+export function extractContext(carrier?: TraceContext): Context {
+    const match = carrier && TRACEPARENT_PATTERN.exec(carrier.traceparent);
+    if (!match) {
+        return context.active();
+    }
+
+    return trace.setSpanContext(context.active(), {
+        traceId: match[1],
+        spanId: match[2],
+        traceFlags: parseInt(match[3], 16),
+        isRemote: true,
+    });
+}
+
+/**
+ * Run a function inside a new active span
+ * The span records thrown errors and ends when the function settles.
+ * @param name Span name
+ * @param attributes Span attributes
+ * @param fn Function to run
+ * @param options Parent context and span kind
+ */
+export function withSpan<T>(
+    name: string,
+    attributes: Attributes,
+    fn: (span: Span) => T | Promise<T>,
+    options: { parent?: Context; kind?: SpanKind } = {},
+): Promise<T> {
+    return tracer.startActiveSpan(name, { attributes, kind: options.kind }, options.parent ?? context.active(), async (span) => {
+        try {
+            return await fn(span);
+        } catch (error) {
+            span.recordException(error instanceof Error ? error : String(error));
+            span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
@@ -1,15 +1,33 @@
-import { BotConfig } from "@/config.ts";
-import { logger, LogLevel } from "@/utils/logger.ts";
+import { BotConfig, BotsChange } from "@/config.ts";
+import { LogFields, Logger, logger, LogLevel, LogLevelSettings } from "@/utils/logger.ts";
 import { GameSentMessage, GameService } from "@/game/index.ts";
+import { EventHub } from "@/utils/events.ts";
+import { MetricsRegistry } from "@/utils/metrics.ts";
+import { extractContext, injectContext, TraceContext, tracer } from "@/utils/tracing.ts";
+import { context, Span, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
 
 const workerLogger = logger.withPrefix("Worker Manager");
 
+const metrics = MetricsRegistry.getInstance();
+const workersMetric = metrics.gauge("blockassassin_workers", "Number of workers per status");
+const workerErrorCountMetric = metrics.gauge("blockassassin_worker_error_count", "Errors per worker since its last successful result");
+const workerErrorsMetric = metrics.counter("blockassassin_worker_errors_total", "Worker errors per bot");
+const workerRestartsMetric = metrics.counter("blockassassin_worker_restarts_total", "Worker restarts per bot, including recoveries");
+const botHealthMetric = metrics.gauge("blockassassin_bot_health", "Bot health points");
+const botFoodMetric = metrics.gauge("blockassassin_bot_food", "Bot food points");
+const botLoopDurationMetric = metrics.histogram(
+    "blockassassin_bot_loop_duration_seconds",
+    "Duration of an agent loop iteration, excluding the idle delay",
+    [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+);
+
 /**
  * Agent worker status
  */
 export enum WorkerStatus {
     IDLE = "idle",
     RUNNING = "running",
+    PAUSED = "paused",
     ERROR = "error",
     TERMINATED = "terminated",
 }
@@ -21,25 +39,108 @@ export enum WorkerMessageType {
     INIT = "init",
     START = "start",
     STOP = "stop",
+    PAUSE = "pause",
+    RESUME = "resume",
     ERROR = "error",
     LOG = "log",
     START_FAILED = "start_failed",
+    LOG_LEVELS = "log_levels",
 
     // send to agent
     TASK = "task",
+    CANCEL = "cancel",
+    CHAT = "chat",
+    UPDATE_CONFIG = "update_config",
     RESULT = "result",
+    PROGRESS = "progress",
 
     // receive from agent
     SEND = "send",
+    METRICS = "metrics",
+}
+
+/**
+ * Task executed by an agent
+ */
+export interface AgentTask {
+    id: string;
+    type: string; // "command", "roleAssign" or the name of an agent command
+    args?: Record<string, unknown>;
+    timeout?: number; // Milliseconds before the task is cancelled
+}
+
+/**
+ * Final result of a task
+ */
+export interface TaskResult {
+    id: string;
+    success: boolean;
+    result?: unknown;
+    error?: string;
+    cancelled?: boolean;
+}
+
+/**
+ * Progress update of a running task
+ */
+export interface TaskProgress {
+    id: string;
+    message: string;
+}
+
+/**
+ * Bot vitals reported after every agent loop iteration
+ */
+export interface BotMetrics {
+    health: number;
+    food: number;
+    loopDuration: number; // Milliseconds
 }
 
 /**
  * Worker message interface
+ * traceContext continues the sender's trace on the other side of postMessage.
  */
 export type WorkerMessage =
-    | { type: WorkerMessageType.SEND; data: GameSentMessage }
-    | { type: WorkerMessageType.LOG; logLevel: LogLevel; data: string }
-    | { type: Exclude<WorkerMessageType, WorkerMessageType.SEND>; data?: unknown };
+    & (
+        | { type: WorkerMessageType.SEND; data: GameSentMessage }
+        | { type: WorkerMessageType.LOG; logLevel: LogLevel; data: string; prefix?: string; fields?: LogFields; error?: string }
+        | { type: WorkerMessageType.TASK; data: AgentTask }
+        | { type: WorkerMessageType.CANCEL; data: { id: string } }
+        | { type: WorkerMessageType.RESULT; data: TaskResult }
+        | { type: WorkerMessageType.PROGRESS; data: TaskProgress }
+        | { type: WorkerMessageType.METRICS; data: BotMetrics }
+        | { type: WorkerMessageType.LOG_LEVELS; data: LogLevelSettings }
+        | {
+            type: Exclude<
+                WorkerMessageType,
+                | WorkerMessageType.SEND
+                | WorkerMessageType.LOG
+                | WorkerMessageType.TASK
+                | WorkerMessageType.CANCEL
+                | WorkerMessageType.RESULT
+                | WorkerMessageType.PROGRESS
+                | WorkerMessageType.METRICS
+                | WorkerMessageType.LOG_LEVELS
+            >;
+            data?: unknown;
+        }
+    )
+    & { traceContext?: TraceContext };
+
+// Default task timeout, and extra time the worker gets to report a cancelled task
+const DEFAULT_TASK_TIMEOUT = 60000;
+const TASK_CANCEL_GRACE = 2000;
+// Bot config keys a running agent picks up without a restart
+const LIVE_CONFIG_KEYS = new Set(["identity", "prompt"]);
+
+interface PendingTask {
+    worker: string;
+    resolve: (result: TaskResult) => void;
+    onProgress?: (progress: TaskProgress) => void;
+    timer: number;
+    span: Span;
+}
 
 /**
  * Manages multiple agent workers
@@ -49,6 +150,9 @@ export class WorkerManager {
     private status: Map<string, WorkerStatus>;
     private workerModulePath: string;
     private errorCounts: Map<string, number>;
+    private workerIds: Map<string, string> = new Map();
+    private configs: Map<string, BotConfig> = new Map();
+    private pendingTasks: Map<string, PendingTask> = new Map();
     private maxRetries: number = 3;
     private restartTimeout: number = 5000; // 5 seconds
 
@@ -76,6 +180,23 @@ export class WorkerManager {
         this.status = new Map();
         this.errorCounts = new Map();
         this.workerModulePath = workerModulePath;
+
+        metrics.addCollector(() => this.collectMetrics());
+    }
+
+    /**
+     * Refresh the gauges that mirror worker state
+     */
+    private collectMetrics(): void {
+        workersMetric.reset();
+        for (const status of Object.values(WorkerStatus)) {
+            workersMetric.set({ status }, [...this.status.values()].filter((value) => value === status).length);
+        }
+
+        workerErrorCountMetric.reset();
+        for (const [name, count] of this.errorCounts) {
+            workerErrorCountMetric.set({ bot: name }, count);
+        }
     }
 
     /**
@@ -144,9 +265,14 @@ export class WorkerManager {
                 this.handleWorkerError(name, error);
             });
 
-            // Store the worker
+            // Store the worker, the id tells restarted workers of the same bot apart in logs
             this.workers.set(name, worker);
-            this.status.set(name, WorkerStatus.IDLE);
+            this.workerIds.set(name, crypto.randomUUID().slice(0, 8));
+            this.configs.set(name, config);
+            this.setStatus(name, WorkerStatus.IDLE);
+
+            // Apply the current log levels before the agent starts logging
+            worker.postMessage({ type: WorkerMessageType.LOG_LEVELS, data: logger.getLevels() });
 
             // Initialize the worker with configuration
             worker.postMessage({
@@ -157,11 +283,24 @@ export class WorkerManager {
             workerLogger.info(`Worker ${name} created`);
         } catch (error) {
             workerLogger.error(`Failed to create worker ${name}: ${error}`);
-            this.status.set(name, WorkerStatus.ERROR);
+            this.setStatus(name, WorkerStatus.ERROR);
             // Don't attempt to restart here as the worker creation itself failed
         }
     }
 
+    /**
+     * Update a worker's status and publish the change
+     * @param name Worker name
+     * @param status New status
+     */
+    private setStatus(name: string, status: WorkerStatus): void {
+        const previous = this.status.get(name);
+        this.status.set(name, status);
+        if (previous !== status) {
+            EventHub.getInstance().publish("status", { status, previous: previous ?? null }, name, status);
+        }
+    }
+
     /**
      * Handle worker errors
      * @param name Worker name
@@ -171,11 +310,12 @@ export class WorkerManager {
         const errorMessage = error instanceof ErrorEvent ? error.message || "Unknown worker error" : String(error);
 
         workerLogger.error(`Worker ${name} error: ${errorMessage}`);
-        this.status.set(name, WorkerStatus.ERROR);
+        this.setStatus(name, WorkerStatus.ERROR);
 
         // Increment error count
         const currentErrorCount = this.errorCounts.get(name) || 0;
         this.errorCounts.set(name, currentErrorCount + 1);
+        workerErrorsMetric.inc({ bot: name });
 
         // Attempt to recover the worker
         this.attemptWorkerRecovery(name);
@@ -206,8 +346,9 @@ export class WorkerManager {
                     });
 
                     // Set status to idle and then restart
-                    this.status.set(name, WorkerStatus.IDLE);
+                    this.setStatus(name, WorkerStatus.IDLE);
                     this.startWorker(name);
+                    workerRestartsMetric.inc({ bot: name });
 
                     workerLogger.info(`Worker ${name} recovered after error`);
                 }
@@ -226,45 +367,32 @@ export class WorkerManager {
     private handleWorkerMessage(name: string, message: WorkerMessage): void {
         switch (message.type) {
             case WorkerMessageType.LOG:
-                if ("logLevel" in message) {
-                    switch (message.logLevel) {
-                        case LogLevel.DEBUG:
-                            logger.debug(`[Worker ${name}] ${message.data}`);
-                            break;
-                        case LogLevel.INFO:
-                            logger.info(`[Worker ${name}] ${message.data}`);
-                            break;
-                        case LogLevel.WARN:
-                            logger.warn(`[Worker ${name}] ${message.data}`);
-                            break;
-                        case LogLevel.ERROR:
-                            logger.error(`[Worker ${name}] ${message.data}`);
-                            break;
-                        default:
-                            logger.info(`[Worker ${name}] ${message.data}`);
-                            break;
-                    }
-                } else {
-                    logger.info(`[Worker ${name}] ${message.data}`);
-                }
+                this.publishLog(name, message.logLevel, message.data);
+                this.getBotLogger(name)
+                    .withPrefix(message.prefix ?? "Agent")
+                    .withFields(message.fields ?? {})
+                    .log(message.logLevel, message.data, message.error);
                 break;
 
             case WorkerMessageType.ERROR:
-                logger.error(`[Worker ${name}] [ERROR] ${message.data}`);
+                this.getBotLogger(name).error(`[ERROR] ${message.data}`);
+                this.publishLog(name, LogLevel.ERROR, message.data);
 
                 // Only update status if currently running (allow initialization errors to be handled without changing state)
                 if (this.status.get(name) === WorkerStatus.RUNNING) {
-                    this.status.set(name, WorkerStatus.ERROR);
+                    this.setStatus(name, WorkerStatus.ERROR);
 
                     // Track error and attempt recovery
                     const errorCount = this.errorCounts.get(name) || 0;
                     this.errorCounts.set(name, errorCount + 1);
+                    workerErrorsMetric.inc({ bot: name });
                     this.attemptWorkerRecovery(name);
                 }
                 break;
 
             case WorkerMessageType.START_FAILED:
-                logger.error(`[Worker ${name}] [START FAILED] ${message.data}`);
+                this.getBotLogger(name).error(`[START FAILED] ${message.data}`);
+                this.publishLog(name, LogLevel.ERROR, `Start failed: ${message.data}`);
                 // Startup failed, terminate worker without attempting recovery
                 workerLogger.warn(`Agent ${name} failed to start, terminating without retry`);
                 this.terminateWorker(name);
@@ -272,20 +400,51 @@ export class WorkerManager {
 
             case WorkerMessageType.RESULT:
                 // Reset error count on successful results
-                this.errorCounts.set(name, 0);
-                logger.info(`[Worker ${name}] [RESULT] ${JSON.stringify(message.data)}`);
+                if (message.data.success) {
+                    this.errorCounts.set(name, 0);
+                }
+                this.getBotLogger(name).info(`[RESULT] ${message.data.id} ${message.data.success ? "succeeded" : "failed"}`);
+                this.settleTask(message.data);
+                break;
+
+            case WorkerMessageType.PROGRESS:
+                this.getBotLogger(name).debug(`[PROGRESS] ${message.data.id} ${message.data.message}`);
+                this.pendingTasks.get(message.data.id)?.onProgress?.(message.data);
+                break;
+
+            case WorkerMessageType.METRICS:
+                botHealthMetric.set({ bot: name }, message.data.health);
+                botFoodMetric.set({ bot: name }, message.data.food);
+                botLoopDurationMetric.observe({ bot: name }, message.data.loopDuration / 1000);
                 break;
 
             case WorkerMessageType.SEND:
-                GameService.getInstance().sendBotMessage(name, message.data);
-                logger.info(`[Worker ${name}] [SEND] ${message.data.type}`);
+                // Continue the worker's trace through GameService and WebSocketClient.send
+                context.with(extractContext(message.traceContext), () => GameService.getInstance().sendBotMessage(name, message.data))
+                    .catch((error) => this.getBotLogger(name).error(`[SEND] ${message.data.type} failed`, error as Error));
+                this.getBotLogger(name).info(`[SEND] ${message.data.type}`);
                 break;
 
             default:
-                logger.info(`[Worker ${name}] [UNKNOWN] ${JSON.stringify(message)}`);
+                this.getBotLogger(name).info(`[UNKNOWN] ${JSON.stringify(message)}`);
         }
     }
 
+    /**
+     * Get a logger tagged with a worker's bot name and worker id
+     */
+    private getBotLogger(name: string): Logger {
+        return logger.withPrefix("Worker").withFields({ bot: name, worker: this.workerIds.get(name) });
+    }
+
+    /**
+     * Publish a worker log line to local event subscribers
+     */
+    private publishLog(name: string, level: LogLevel, message: unknown): void {
+        const levelName = (LogLevel[level] ?? "INFO").toLowerCase();
+        EventHub.getInstance().publish("log", { level: levelName, message: String(message) }, name, levelName);
+    }
+
     /**
      * Start a specific worker
      * @param name Worker name
@@ -299,7 +458,7 @@ export class WorkerManager {
             worker.postMessage({
                 type: WorkerMessageType.START,
             });
-            this.status.set(name, WorkerStatus.RUNNING);
+            this.setStatus(name, WorkerStatus.RUNNING);
             workerLogger.info(`Worker ${name} started`);
             return true;
         }
@@ -320,17 +479,56 @@ export class WorkerManager {
      */
     public stopWorker(name: string): boolean {
         const worker = this.workers.get(name);
-        if (worker && (this.status.get(name) === WorkerStatus.RUNNING || this.status.get(name) === WorkerStatus.ERROR)) {
+        const status = this.status.get(name);
+        if (worker && (status === WorkerStatus.RUNNING || status === WorkerStatus.PAUSED || status === WorkerStatus.ERROR)) {
             worker.postMessage({
                 type: WorkerMessageType.STOP,
             });
-            this.status.set(name, WorkerStatus.IDLE);
+            this.setStatus(name, WorkerStatus.IDLE);
+            this.failPendingTasks(name, `worker ${name} was stopped`);
             workerLogger.info(`Worker ${name} stopped`);
             return true;
         }
         return false;
     }
 
+    /**
+     * Pause a running worker, its bot stays connected but the agent stops acting
+     * @param name Worker name
+     * @returns Success status
+     */
+    public pauseWorker(name: string): boolean {
+        const worker = this.workers.get(name);
+        if (worker && this.status.get(name) === WorkerStatus.RUNNING) {
+            worker.postMessage({
+                type: WorkerMessageType.PAUSE,
+            });
+            this.setStatus(name, WorkerStatus.PAUSED);
+            this.failPendingTasks(name, `worker ${name} was paused`);
+            workerLogger.info(`Worker ${name} paused`);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Resume a paused worker
+     * @param name Worker name
+     * @returns Success status
+     */
+    public resumeWorker(name: string): boolean {
+        const worker = this.workers.get(name);
+        if (worker && this.status.get(name) === WorkerStatus.PAUSED) {
+            worker.postMessage({
+                type: WorkerMessageType.RESUME,
+            });
+            this.setStatus(name, WorkerStatus.RUNNING);
+            workerLogger.info(`Worker ${name} resumed`);
+            return true;
+        }
+        return false;
+    }
+
     /**
      * Terminate a worker
      * @param name Worker name
@@ -341,14 +539,19 @@ export class WorkerManager {
         if (worker) {
             try {
                 worker.terminate();
+                this.failPendingTasks(name, `worker ${name} was terminated`);
                 this.workers.delete(name);
-                this.status.set(name, WorkerStatus.TERMINATED);
+                this.setStatus(name, WorkerStatus.TERMINATED);
                 this.errorCounts.delete(name);
+                this.workerIds.delete(name);
+                this.configs.delete(name);
+                botHealthMetric.remove({ bot: name });
+                botFoodMetric.remove({ bot: name });
                 workerLogger.info(`Worker ${name} terminated`);
                 return true;
             } catch (error) {
                 workerLogger.error(`Error terminating worker ${name}: ${error}`);
-                this.status.set(name, WorkerStatus.ERROR);
+                this.setStatus(name, WorkerStatus.ERROR);
                 return false;
             }
         }
@@ -362,20 +565,17 @@ export class WorkerManager {
      * @returns Success status
      */
     public restartWorker(name: string, config?: BotConfig): boolean {
-        // If no config is provided, reuse the existing config if possible
-        if (!config && this.workers.has(name)) {
-            // Implementation note: In reality, we would need to store workers' configs separately
-            // This is a placeholder for demonstration purposes
-            workerLogger.warn(`Restarting worker ${name} without configuration`);
-        }
+        // If no config is provided, reuse the worker's current config
+        const botConfig = config ?? this.configs.get(name);
 
         if (this.terminateWorker(name)) {
             // Reset error count
             this.errorCounts.set(name, 0);
 
             // Create and start worker
-            if (config) {
-                this.createWorker(name, config);
+            if (botConfig) {
+                this.createWorker(name, botConfig);
+                workerRestartsMetric.inc({ bot: name });
                 return this.startWorker(name);
             } else {
                 workerLogger.error(`Cannot restart worker ${name}: No configuration provided`);
@@ -385,6 +585,56 @@ export class WorkerManager {
         return false;
     }
 
+    /**
+     * Bring the workers in line with changed bot configs
+     * Removed bots are terminated. Changed bots get the new config pushed when only identity or prompt changed,
+     * otherwise they are restarted, paused ones paused again, and stopped ones re-initialized. Added bots are started only while other bots are running, otherwise the next start picks them up.
+     * @param change Bots added, removed and changed in the config
+     */
+    public applyBotsChange(change: BotsChange): void {
+        const running = [...this.status.values()].includes(WorkerStatus.RUNNING);
+
+        for (const name of change.removed) {
+            if (this.terminateWorker(name)) {
+                workerLogger.info(`Worker ${name} terminated, its bot was removed`);
+            }
+        }
+
+        for (const botConfig of change.changed) {
+            const previous = this.configs.get(botConfig.name);
+            if (!previous) continue;
+
+            const liveUpdate = Object.keys({ ...previous, ...botConfig }).every((key) =>
+                LIVE_CONFIG_KEYS.has(key) || previous[key as keyof BotConfig] === botConfig[key as keyof BotConfig]
+            );
+            if (liveUpdate) {
+                this.configs.set(botConfig.name, botConfig);
+                this.workers.get(botConfig.name)?.postMessage({ type: WorkerMessageType.UPDATE_CONFIG, data: botConfig });
+                workerLogger.info(`Worker ${botConfig.name} config updated`);
+            } else {
+                const status = this.status.get(botConfig.name);
+                if (status === WorkerStatus.RUNNING) {
+                    this.restartWorker(botConfig.name, botConfig);
+                } else if (status === WorkerStatus.PAUSED) {
+                    // Keep the bot in the paused match, resumeAllWorkers() only resumes paused workers
+                    if (this.restartWorker(botConfig.name, botConfig)) {
+                        this.pauseWorker(botConfig.name);
+                    }
+                } else {
+                    this.initWorker(botConfig);
+                }
+            }
+        }
+
+        if (running) {
+            for (const botConfig of change.added) {
+                if (!this.workers.has(botConfig.name) && this.initWorker(botConfig)) {
+                    this.startWorker(botConfig.name);
+                }
+            }
+        }
+    }
+
     /**
      * Start all workers
      */
@@ -403,6 +653,24 @@ export class WorkerManager {
         }
     }
 
+    /**
+     * Pause all running workers
+     */
+    public pauseAllWorkers(): void {
+        for (const name of this.workers.keys()) {
+            this.pauseWorker(name);
+        }
+    }
+
+    /**
+     * Resume all paused workers
+     */
+    public resumeAllWorkers(): void {
+        for (const name of this.workers.keys()) {
+            this.resumeWorker(name);
+        }
+    }
+
     /**
      * Terminate all workers
      */
@@ -414,29 +682,139 @@ export class WorkerManager {
 
     /**
      * Send a task to a worker
+     * The returned promise never rejects: failures, timeouts and cancellations resolve with an unsuccessful result.
      * @param name Worker name
-     * @param task Task data
-     * @returns Success status
+     * @param task Task type, arguments and optional id and timeout
+     * @param onProgress Optional callback receiving progress updates
+     * @returns Promise resolving with the task result
      */
-    public sendTask(name: string, task: unknown): boolean {
+    public sendTask(
+        name: string,
+        task: Omit<AgentTask, "id"> & { id?: string },
+        onProgress?: (progress: TaskProgress) => void,
+    ): Promise<TaskResult> {
         const worker = this.workers.get(name);
         const status = this.status.get(name);
+        const id = task.id ?? crypto.randomUUID();
+
+        if (!worker || status !== WorkerStatus.RUNNING) {
+            if (status === WorkerStatus.ERROR) {
+                workerLogger.warn(`Cannot send task to worker ${name} in ERROR state`);
+            }
+            return Promise.resolve({ id, success: false, error: `worker ${name} is not running` });
+        }
 
-        if (worker && status === WorkerStatus.RUNNING) {
+        const timeout = task.timeout ?? DEFAULT_TASK_TIMEOUT;
+        // The span lasts until the worker reports the result
+        const span = tracer.startSpan(`task ${task.type}`, {
+            kind: SpanKind.PRODUCER,
+            attributes: { "bot.name": name, "task.id": id, "task.type": task.type },
+        });
+
+        return new Promise((resolve) => {
+            // The worker cancels the task itself on timeout, this only covers a worker that stopped responding
+            const timer = setTimeout(() => {
+                this.settleTask({ id, success: false, cancelled: true, error: `task timed out after ${timeout}ms` });
+                worker.postMessage({ type: WorkerMessageType.CANCEL, data: { id } });
+            }, timeout + TASK_CANCEL_GRACE);
+
+            this.pendingTasks.set(id, { worker: name, resolve, onProgress, timer, span });
             worker.postMessage({
                 type: WorkerMessageType.TASK,
-                data: task,
+                data: { ...task, id, timeout },
+                traceContext: injectContext(trace.setSpan(context.active(), span)),
             });
-            return true;
+        });
+    }
+
+    /**
+     * Cancel a running task
+     * The task's promise resolves once the worker reports the cancellation.
+     * @param id Task id
+     * @param name Worker the task must belong to, any worker when omitted
+     * @returns Whether the task was pending
+     */
+    public cancelTask(id: string, name?: string): boolean {
+        const pending = this.pendingTasks.get(id);
+        if (name !== undefined && pending?.worker !== name) {
+            return false;
+        }
+
+        const worker = pending && this.workers.get(pending.worker);
+        if (!worker) {
+            return false;
+        }
+
+        worker.postMessage({ type: WorkerMessageType.CANCEL, data: { id }, traceContext: injectContext() });
+        return true;
+    }
+
+    /**
+     * Resolve a pending task with its result
+     * @param result Task result
+     */
+    private settleTask(result: TaskResult): void {
+        const pending = this.pendingTasks.get(result.id);
+        if (!pending) {
+            return;
+        }
+
+        clearTimeout(pending.timer);
+        this.pendingTasks.delete(result.id);
+        pending.span.setAttribute("task.cancelled", result.cancelled ?? false);
+        if (!result.success) {
+            pending.span.setStatus({ code: SpanStatusCode.ERROR, message: result.error });
+        }
+        pending.span.end();
+        pending.resolve(result);
+    }
+
+    /**
+     * Fail all pending tasks of a worker, e.g. when it is terminated
+     * @param name Worker name
+     * @param error Error reported to the callers
+     */
+    private failPendingTasks(name: string, error: string): void {
+        for (const [id, pending] of this.pendingTasks) {
+            if (pending.worker === name) {
+                this.settleTask({ id, success: false, error });
+            }
         }
+    }
 
-        if (status === WorkerStatus.ERROR) {
-            workerLogger.warn(`Cannot send task to worker ${name} in ERROR state`);
+    /**
+     * Make a worker's bot say something in chat
+     * @param name Worker name
+     * @param message Chat message
+     * @param to Player to whisper to, or undefined for public chat
+     * @returns Success status
+     */
+    public sendChat(name: string, message: string, to?: string): boolean {
+        const worker = this.workers.get(name);
+
+        if (worker && this.status.get(name) === WorkerStatus.RUNNING) {
+            worker.postMessage({
+                type: WorkerMessageType.CHAT,
+                data: { message, to },
+                traceContext: injectContext(),
+            });
+            return true;
         }
 
         return false;
     }
 
+    /**
+     * Send the main logger's current levels to all workers
+     * Call after changing levels at runtime, new workers receive them when created.
+     */
+    public syncLogLevels(): void {
+        const levels = logger.getLevels();
+        for (const worker of this.workers.values()) {
+            worker.postMessage({ type: WorkerMessageType.LOG_LEVELS, data: levels });
+        }
+    }
+
     /**
      * Get worker status
      * @param name Worker name
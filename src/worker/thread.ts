@@ -1,7 +1,10 @@
 /// <reference lib="deno.worker" />
-import { BotConfig } from "@/config.ts";
+import config, { BotConfig } from "@/config.ts";
 import { Agent } from "@/agent/index.ts";
-import { WorkerMessage, WorkerMessageType } from "./manager.ts";
+import { AgentTask, TaskResult, WorkerMessage, WorkerMessageType } from "./manager.ts";
+import { extractContext, injectContext, withSpan } from "@/utils/tracing.ts";
+import { logger, LogRecord, LogSink } from "@/utils/logger.ts";
+import { context, SpanKind } from "@opentelemetry/api";
 
 /**
  * Agent Worker Thread
@@ -14,13 +17,36 @@ const workerContext = self;
 // Current agent instance
 let agent: Agent | null = null;
 let isRunning = false;
+let isPaused = false;
+
+/**
+ * Sink forwarding log records to the worker manager, which writes them with the bot and worker fields
+ */
+class WorkerLogSink implements LogSink {
+    write(record: LogRecord): void {
+        workerContext.postMessage({
+            type: WorkerMessageType.LOG,
+            logLevel: record.level,
+            data: record.message,
+            prefix: record.prefix,
+            fields: record.fields,
+            error: record.error,
+        } as WorkerMessage);
+    }
+}
+
+// Everything logged in this thread, including shared modules, goes through the manager
+logger.setSinks([new WorkerLogSink()]);
+logger.setLevel(config.settings.logging?.level ?? "info");
+const threadLogger = logger.withPrefix("Worker Thread");
+
+// Running tasks by id
+const runningTasks = new Map<string, AbortController>();
+const DEFAULT_TASK_TIMEOUT = 60000;
 
 // Log helper function
 function log(message: string): void {
-    workerContext.postMessage({
-        type: WorkerMessageType.LOG,
-        data: message,
-    } as WorkerMessage);
+    threadLogger.info(message);
 }
 
 // Error helper function
@@ -34,6 +60,8 @@ function reportError(error: unknown): void {
 
 // Initialize agent
 function initAgent(config: BotConfig): void {
+    // Lets per-bot levels apply inside the worker too
+    logger.setGlobalFields({ bot: config.name });
     try {
         agent = new Agent(config);
         log(`Agent initialized with config: ${config.name}`);
@@ -42,6 +70,16 @@ function initAgent(config: BotConfig): void {
     }
 }
 
+// Apply a changed bot config to the running agent
+function updateAgentConfig(config: BotConfig): void {
+    if (!agent) {
+        initAgent(config);
+        return;
+    }
+    agent.updateConfig(config);
+    log(`Agent config updated: ${config.name}`);
+}
+
 // Start agent processing
 async function startAgent(): Promise<void> {
     if (!agent) {
@@ -50,6 +88,8 @@ async function startAgent(): Promise<void> {
     }
 
     try {
+        // A PAUSE received while the bot logs in keeps it paused
+        isPaused = false;
         await agent.start();
         isRunning = true;
         log("Agent started");
@@ -71,6 +111,9 @@ async function startAgent(): Promise<void> {
 // Stop agent processing
 function stopAgent(): void {
     isRunning = false;
+    for (const id of runningTasks.keys()) {
+        cancelTask(id);
+    }
     log("Agent stopped");
 
     // Add safe shutdown logic
@@ -85,43 +128,104 @@ function stopAgent(): void {
     }
 }
 
+// Pause the agent loop, the bot stays logged in
+function pauseAgent(): void {
+    isPaused = true;
+    for (const id of runningTasks.keys()) {
+        cancelTask(id);
+    }
+    agent?.pause();
+    log("Agent paused");
+}
+
+// Resume the agent loop
+function resumeAgent(): void {
+    isPaused = false;
+    log("Agent resumed");
+}
+
+// Report task progress
+function reportProgress(id: string, message: string): void {
+    workerContext.postMessage({
+        type: WorkerMessageType.PROGRESS,
+        data: { id, message },
+        traceContext: injectContext(),
+    } as WorkerMessage);
+}
+
+// Report a task's final result
+function reportResult(result: TaskResult): void {
+    workerContext.postMessage({
+        type: WorkerMessageType.RESULT,
+        data: result,
+        traceContext: injectContext(),
+    } as WorkerMessage);
+}
+
 // Process a task
-function processTask(task: unknown): void {
+async function processTask(task: AgentTask): Promise<void> {
     if (!agent) {
-        reportError("Cannot process task: Agent not initialized");
+        reportResult({ id: task.id, success: false, error: "Agent not initialized" });
         return;
     }
 
-    try {
-        // Here you would implement task processing logic
-        // For now, just log the task
-        log(`Processing task: ${JSON.stringify(task)}`);
+    const timeout = task.timeout ?? DEFAULT_TASK_TIMEOUT;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`task timed out after ${timeout}ms`)), timeout);
+    runningTasks.set(task.id, controller);
 
-        // Send back a result
-        workerContext.postMessage({
-            type: WorkerMessageType.RESULT,
-            data: {
-                taskCompleted: true,
-                task: task,
-            },
-        } as WorkerMessage);
+    try {
+        const result = await withSpan(`run task ${task.type}`, { "task.id": task.id, "task.type": task.type }, () => {
+            reportProgress(task.id, `started ${task.type}`);
+            return agent!.runTask(task, controller.signal, (message) => reportProgress(task.id, message));
+        }, { kind: SpanKind.CONSUMER });
+        reportResult({ id: task.id, success: true, result });
     } catch (error) {
-        reportError(error);
         // Send failure result instead of letting the error propagate
-        workerContext.postMessage({
-            type: WorkerMessageType.RESULT,
-            data: {
-                taskCompleted: false,
-                error: error instanceof Error ? error.message : String(error),
-                task: task,
-            },
-        } as WorkerMessage);
+        reportResult({
+            id: task.id,
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            cancelled: controller.signal.aborted,
+        });
+    } finally {
+        clearTimeout(timer);
+        runningTasks.delete(task.id);
     }
 }
 
+// Cancel a running task
+function cancelTask(id: string): void {
+    const controller = runningTasks.get(id);
+    if (controller) {
+        controller.abort(new Error("task cancelled"));
+        log(`Task ${id} cancelled`);
+    }
+}
+
+// Say something in chat on behalf of the orchestrator
+// A failed chat line, e.g. a whisper to an offline player, is only logged: reporting it as an error would restart the bot
+function processChat(chat: { message: string; to?: string }): void {
+    if (!agent) {
+        threadLogger.warn("Cannot send chat: Agent not initialized");
+        return;
+    }
+
+    const currentAgent = agent;
+    withSpan("chat", { "chat.whisper": chat.to !== undefined }, () => currentAgent.say(chat.message, chat.to))
+        .catch((error) =>
+            threadLogger.warn(`Cannot send chat${chat.to ? ` to ${chat.to}` : ""}: ${error instanceof Error ? error.message : error}`)
+        );
+}
+
 // Main agent loop
 async function runAgentLoop(): Promise<void> {
     while (isRunning) {
+        if (isPaused) {
+            await new Promise((resolve) => setTimeout(resolve, 500));
+            continue;
+        }
+
         try {
             // Here you would implement the agent's continuous processing logic
             // For a Minecraft bot, this might involve observing the environment,
@@ -142,20 +246,44 @@ async function runAgentLoop(): Promise<void> {
 workerContext.addEventListener("message", async (event: MessageEvent<WorkerMessage>) => {
     const message = event.data;
 
+    // Continue the manager's trace for everything this message triggers
+    await context.with(extractContext(message.traceContext), () => handleMessage(message));
+});
+
+// Handle a message from the main thread
+async function handleMessage(message: WorkerMessage): Promise<void> {
     try {
         switch (message.type) {
             case WorkerMessageType.INIT:
                 initAgent(message.data as BotConfig);
                 break;
+            case WorkerMessageType.UPDATE_CONFIG:
+                updateAgentConfig(message.data as BotConfig);
+                break;
+            case WorkerMessageType.LOG_LEVELS:
+                logger.setLevels(message.data);
+                break;
             case WorkerMessageType.START:
                 await startAgent();
                 break;
             case WorkerMessageType.STOP:
                 stopAgent();
                 break;
+            case WorkerMessageType.PAUSE:
+                pauseAgent();
+                break;
+            case WorkerMessageType.RESUME:
+                resumeAgent();
+                break;
             case WorkerMessageType.TASK:
                 processTask(message.data);
                 break;
+            case WorkerMessageType.CANCEL:
+                cancelTask(message.data.id);
+                break;
+            case WorkerMessageType.CHAT:
+                processChat(message.data as { message: string; to?: string });
+                break;
             default:
                 log(`Unknown message type: ${message.type}`);
         }
@@ -163,7 +291,7 @@ workerContext.addEventListener("message", async (event: MessageEvent<WorkerMessa
         reportError(error);
         log("Error in message handler, but worker continues running");
     }
-});
+}
 
 // Add global error handlers
 workerContext.addEventListener("error", (event: ErrorEvent) => {
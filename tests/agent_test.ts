@@ -0,0 +1,107 @@
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std/assert/mod.ts";
+import { assertSpyCalls, spy, stub } from "https://deno.land/std/testing/mock.ts";
+import { FakeTime } from "https://deno.land/std/testing/time.ts";
+import { Bot } from "mineflayer";
+import { Agent } from "@/agent/index.ts";
+import { MCManager } from "@/agent/mc.ts";
+import { ChatMessage, ScriptedProvider } from "@/agent/llm/index.ts";
+import { WorkerMessageType } from "@/worker/manager.ts";
+
+const HUD = { newHUD: {}, hudStr: "HEALTH: 20/20" } as ReturnType<MCManager["headsUpDisplay"]>;
+
+// Agent replaying a script, with a bot that only records chat and a worker context that records messages
+function createAgent(script: string[]) {
+    const agent = new Agent({ name: "Alice", identity: "A careful miner", prompt: "Find diamonds" });
+    const llm = new ScriptedProvider(script);
+    // @ts-ignore: Access private member for testing
+    agent.llm = llm;
+
+    const chat: string[] = [];
+    const posted: { type: WorkerMessageType; data: { type: string; data: Record<string, unknown> } }[] = [];
+    const mcManager = MCManager.getInstance();
+    const stubs = [
+        stub(mcManager, "headsUpDisplay", () => test.hud),
+        stub(mcManager, "getBot", () => ({ chat: (message: string) => chat.push(message) }) as unknown as Bot),
+    ];
+    Object.assign(self, { postMessage: (message: (typeof posted)[number]) => posted.push(message) });
+
+    const time = new FakeTime();
+    const test = {
+        agent,
+        hud: HUD,
+        complete: spy(llm, "complete"),
+        chat,
+        posted,
+        // Run one iteration, skipping the pause at its end
+        async loop(): Promise<ChatMessage[]> {
+            const done = agent.mainLoop();
+            await time.tickAsync(3000);
+            await done;
+            return test.complete.calls.at(-1)?.args[0] ?? [];
+        },
+        [Symbol.dispose]() {
+            stubs.forEach((s) => s.restore());
+            time.restore();
+            Reflect.deleteProperty(self, "postMessage");
+        },
+    };
+    return test;
+}
+
+Deno.test("Agent - Prompt Building And Command Dispatch", async () => {
+    using test = createAgent(['Greeting first. !say("hello")', "Time to take off. !fly()", '!say("")']);
+
+    const [system, user] = await test.loop();
+    assertStringIncludes(system.content, "You are Alice");
+    assertStringIncludes(system.content, "IDENTITY\nA careful miner");
+    assertStringIncludes(system.content, "INSTRUCTIONS\nFind diamonds");
+    assertStringIncludes(system.content, "- !say(message: string): Send a message in the public chat");
+    assertStringIncludes(user.content, "HEALTH: 20/20");
+    assertStringIncludes(user.content, "RECENT_ACTIONS: none");
+    assertEquals(test.chat, ["hello"]);
+    assertEquals(test.posted[0].data, { type: "botHUDSync", data: { hudStr: HUD!.hudStr } });
+
+    // Results of earlier commands are fed back in the next prompt
+    const [, second] = await test.loop();
+    assertStringIncludes(second.content, 'RECENT_ACTIONS\n- !say("hello") -> ok: sent');
+    const commandError = test.posted.find((message) => message.data.type === "botCommandError");
+    assertEquals(commandError?.data.data.reply, "Time to take off. !fly()");
+
+    const [, third] = await test.loop();
+    assertStringIncludes(third.content, "- error: ");
+    assertStringIncludes(third.content, "fly");
+    assertEquals(test.chat, ["hello"]);
+
+    const [, fourth] = await test.loop();
+    assertStringIncludes(fourth.content, '- !say("") -> failed: empty message');
+});
+
+Deno.test("Agent - Memory Keeps The Latest Results", async () => {
+    using test = createAgent(Array.from({ length: 12 }, (_, i) => `!say("message ${i + 1}")`));
+
+    for (let i = 0; i < 12; i++) {
+        await test.loop();
+    }
+    const [, user] = await test.loop();
+    const actions = user.content.slice(user.content.indexOf("RECENT_ACTIONS")).split("\n").filter((line) => line.startsWith("- "));
+    assertEquals(actions.length, 10);
+    assertEquals(actions[0], '- !say("message 3") -> ok: sent');
+    assertEquals(actions.at(-1), '- !say("message 12") -> ok: sent');
+    assert(!user.content.includes('"message 2"'));
+});
+
+Deno.test("Agent - Thinking Is Skipped Without HUD Or While Tasks Run", async () => {
+    using test = createAgent(['!say("hello")']);
+
+    // @ts-ignore: Access private member for testing
+    test.agent.activeTasks = 1;
+    await test.loop();
+    assertSpyCalls(test.complete, 0);
+
+    // @ts-ignore: Access private member for testing
+    test.agent.activeTasks = 0;
+    test.hud = null;
+    await test.loop();
+    assertSpyCalls(test.complete, 0);
+    assertEquals(test.chat, []);
+});
@@ -0,0 +1,143 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { stub } from "https://deno.land/std/testing/mock.ts";
+import { RouterContext, testing } from "@oak/oak";
+import { createApiRouter } from "@/server/api.ts";
+import { WorkerManager, WorkerMessageType, WorkerStatus } from "@/worker/manager.ts";
+import config, { AccessRole } from "@/config.ts";
+
+const workerManager = WorkerManager.getInstance();
+const router = createApiRouter();
+
+// Worker standing in for a thread, recording the messages posted to it
+class FakeWorker {
+    messages: { type: WorkerMessageType; data?: unknown }[] = [];
+    postMessage(message: { type: WorkerMessageType; data?: unknown }) {
+        this.messages.push(message);
+    }
+    terminate() {}
+}
+
+function addWorker(name: string, status: WorkerStatus): FakeWorker {
+    const worker = new FakeWorker();
+    // @ts-ignore: Access private member for testing
+    workerManager.workers.set(name, worker);
+    // @ts-ignore: Access private member for testing
+    workerManager.status.set(name, status);
+    return worker;
+}
+
+// Run a request through the API router as a client with the given role
+async function request(method: string, path: string, body?: unknown, role: AccessRole = "admin") {
+    const ctx = testing.createMockContext({ method, path: `/api${path}`, state: { auth: { name: "test", role } } });
+    Object.assign(ctx.request, {
+        hasBody: body !== undefined,
+        body: () => ({ type: "json", value: body instanceof Error ? Promise.reject(body) : Promise.resolve(body) }),
+    });
+    await router.routes()(ctx as RouterContext<string>, testing.createMockNext());
+    return { status: ctx.response.status, body: ctx.response.body as Record<string, unknown> };
+}
+
+// Bot configs are saved to a temporary config directory
+async function withTestConfig(fn: (dir: string) => Promise<void>) {
+    const dir = await Deno.makeTempDir();
+    // @ts-ignore: Access private member for testing
+    const { configDir } = config;
+    const bots = config.bots;
+    // @ts-ignore: Access private member for testing
+    config.configDir = dir;
+    config.bots = { Alice: { name: "Alice", identity: "Alice", prompt: "Explore" } };
+    try {
+        await fn(dir);
+    } finally {
+        for (const name of workerManager.getWorkerNames()) {
+            workerManager.terminateWorker(name);
+        }
+        // @ts-ignore: Access private member for testing
+        config.configDir = configDir;
+        config.bots = bots;
+        await Deno.remove(dir, { recursive: true });
+    }
+}
+
+Deno.test("API - Bot Configs", () =>
+    withTestConfig(async (dir) => {
+        const listed = await request("GET", "/bots", undefined, "viewer");
+        assertEquals(listed.status, 200);
+        assertEquals(listed.body.bots, [{
+            name: "Alice",
+            status: null,
+            healthy: false,
+            config: { name: "Alice", identity: "Alice", prompt: "Explore" },
+        }]);
+
+        // Creating validates the name and body, and refuses duplicates
+        assertEquals((await request("POST", "/bots", { name: "Bob", prompt: "Hide" })).status, 201);
+        assertEquals(JSON.parse(await Deno.readTextFile(`${dir}/bots/Bob.json`)), { identity: "", prompt: "Hide" });
+        assertEquals((await request("POST", "/bots", { name: "Bob" })).status, 409);
+        assertEquals((await request("POST", "/bots", { name: "not a name" })).status, 400);
+        assertEquals((await request("POST", "/bots", { name: "Carol", identity: 1 })).body, { error: "identity must be a string" });
+        assertEquals((await request("POST", "/bots", [])).status, 400);
+        assertEquals((await request("POST", "/bots", new SyntaxError("Unexpected token"))).status, 400);
+
+        // PUT creates or updates, keeping the fields it does not set
+        assertEquals((await request("PUT", "/bots/Carol/config", { identity: "Carol" })).status, 201);
+        assertEquals((await request("PUT", "/bots/Bob/config", { identity: "Bob" })).status, 200);
+        assertEquals((await request("GET", "/bots/Bob/config", undefined, "viewer")).body.config, {
+            name: "Bob",
+            identity: "Bob",
+            prompt: "Hide",
+        });
+
+        // Deleting removes the file, the bot is unknown afterwards
+        assertEquals((await request("DELETE", "/bots/Bob")).status, 200);
+        assertEquals((await request("GET", "/bots/Bob", undefined, "viewer")).status, 404);
+        assertEquals((await request("GET", "/bots/not-a-name", undefined, "viewer")).status, 400);
+
+        // Changing configs requires the admin role
+        assertEquals((await request("PUT", "/bots/Alice/config", { prompt: "Hunt" }, "operator")).status, 403);
+        assertEquals((await request("DELETE", "/bots/Alice", undefined, "operator")).status, 403);
+    }));
+
+Deno.test("API - Bot Lifecycle", () =>
+    withTestConfig(async () => {
+        // Starting a bot without a worker creates one first
+        using initWorker = stub(workerManager, "initWorker", (botConfig) => {
+            addWorker(botConfig.name, WorkerStatus.IDLE);
+            return true;
+        });
+        const started = await request("POST", "/bots/Alice/start", undefined, "operator");
+        assertEquals([started.status, initWorker.calls.length], [200, 1]);
+        assertEquals((started.body.bot as Record<string, unknown>).status, WorkerStatus.RUNNING);
+        assertEquals((await request("POST", "/bots/Alice/start", undefined, "operator")).status, 409);
+
+        using restartWorker = stub(workerManager, "restartWorker", () => true);
+        assertEquals((await request("POST", "/bots/Alice/restart", undefined, "operator")).status, 200);
+        assertEquals(restartWorker.calls[0].args, ["Alice", config.getBot("Alice")]);
+
+        assertEquals((await request("POST", "/bots/Alice/stop", undefined, "operator")).status, 200);
+        assertEquals((await request("POST", "/bots/Alice/stop", undefined, "operator")).status, 409);
+        assertEquals((await request("POST", "/bots/Alice/start", undefined, "viewer")).status, 403);
+        assertEquals((await request("POST", "/bots/Nobody/start", undefined, "operator")).status, 404);
+    }));
+
+Deno.test("API - Tasks", () =>
+    withTestConfig(async () => {
+        config.bots.Bob = { name: "Bob", identity: "Bob", prompt: "Hide" };
+        const alice = addWorker("Alice", WorkerStatus.RUNNING);
+        addWorker("Bob", WorkerStatus.RUNNING);
+
+        assertEquals((await request("POST", "/bots/Alice/tasks", { args: {} }, "operator")).status, 400);
+        assertEquals((await request("POST", "/bots/Alice/tasks", { type: "goto", args: [] }, "operator")).status, 400);
+        assertEquals((await request("POST", "/bots/Alice/tasks", { type: "goto", timeout: -1 }, "operator")).status, 400);
+
+        const submitted = await request("POST", "/bots/Alice/tasks", { type: "goto", args: { x: 1 }, wait: false }, "operator");
+        assertEquals(submitted.status, 202);
+        const id = submitted.body.id as string;
+        assertEquals(alice.messages.at(-1)?.type, WorkerMessageType.TASK);
+
+        // A task is only cancelled through its own bot's URL
+        assertEquals((await request("DELETE", `/bots/Bob/tasks/${id}`, undefined, "operator")).status, 404);
+        assertEquals((await request("DELETE", `/bots/Alice/tasks/${id}`, undefined, "operator")).status, 202);
+        assertEquals([alice.messages.at(-1)?.type, alice.messages.at(-1)?.data], [WorkerMessageType.CANCEL, { id }]);
+        assertEquals((await request("DELETE", "/bots/Alice/tasks/unknown", undefined, "operator")).status, 404);
+    }));
@@ -0,0 +1,62 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { Context } from "@oak/oak";
+import { authenticate, AuthState, findApiKey, getCredential, hasRole, requireRole } from "@/server/auth.ts";
+import config, { ApiKeySettings } from "@/config.ts";
+
+// Run a request from an address through authenticate and requireRole("admin")
+async function request(ip: string, headers: HeadersInit = {}): Promise<{ status: number; auth?: AuthState }> {
+    const ctx = {
+        request: { ip, headers: new Headers(headers), url: new URL("http://localhost/api/bots"), method: "DELETE" },
+        response: { status: 200, headers: new Headers() },
+        state: {},
+    } as unknown as Context;
+    const next = () => Promise.resolve();
+    await authenticate()(ctx, () => requireRole("admin")(ctx, next));
+    return { status: ctx.response.status, auth: ctx.state.auth };
+}
+
+Deno.test("Auth - Credentials And Keys", () => {
+    Deno.env.set("BA_TEST_OPERATOR_KEY", "operator-secret");
+    const keys: ApiKeySettings[] = [
+        { name: "dashboard", key: "viewer-secret", role: "viewer" },
+        { name: "ci", keyEnv: "BA_TEST_OPERATOR_KEY", role: "operator" },
+    ];
+
+    assertEquals(getCredential(new Headers({ Authorization: "Bearer viewer-secret" })), "viewer-secret");
+    assertEquals(getCredential(new Headers({ "X-API-Key": "operator-secret" })), "operator-secret");
+    assertEquals(getCredential(new Headers({ Authorization: "Basic abc" })), null);
+
+    assertEquals(findApiKey(keys, "viewer-secret"), { name: "dashboard", role: "viewer" });
+    assertEquals(findApiKey(keys, "operator-secret"), { name: "ci", role: "operator" });
+    assertEquals(findApiKey(keys, "viewer-secre"), null);
+});
+
+Deno.test("Auth - Role Levels", () => {
+    assertEquals(hasRole("admin", "operator"), true);
+    assertEquals(hasRole("operator", "operator"), true);
+    assertEquals(hasRole("viewer", "operator"), false);
+});
+
+Deno.test("Auth - Middleware", async () => {
+    const original = config.settings.auth;
+    try {
+        // Without keys only loopback clients are let in
+        config.settings.auth = { keys: [] };
+        assertEquals(await request("127.0.0.1"), { status: 200, auth: { name: "anonymous", role: "admin" } });
+        assertEquals(await request("::1"), { status: 200, auth: { name: "anonymous", role: "admin" } });
+        assertEquals((await request("192.168.1.20")).status, 401);
+
+        // Keys apply to every client, loopback included
+        config.settings.auth = { keys: [{ name: "ops", key: "admin-secret", role: "admin" }] };
+        assertEquals((await request("127.0.0.1")).status, 401);
+        assertEquals((await request("192.168.1.20", { Authorization: "Bearer wrong" })).status, 401);
+        const authorized = await request("192.168.1.20", { Authorization: "Bearer admin-secret" });
+        assertEquals(authorized, { status: 200, auth: { name: "ops", role: "admin" } });
+
+        // Only an explicit opt-out lets everyone in
+        config.settings.auth = { enabled: false, keys: [] };
+        assertEquals((await request("192.168.1.20")).status, 200);
+    } finally {
+        config.settings.auth = original;
+    }
+});
@@ -0,0 +1,178 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { FakeTime } from "https://deno.land/std/testing/time.ts";
+import { EventEmitter } from "node:events";
+import { Bot } from "mineflayer";
+import { CombatEventType, CombatTracker, parseDeathMessage } from "@/agent/combat.ts";
+
+Deno.test("Combat - Parse Translatable Death Messages", () => {
+    assertEquals(parseDeathMessage("death.attack.player.item", ["Steve", "Alex", "[Diamond Sword]"]), {
+        victim: "Steve",
+        killer: "Alex",
+        weapon: "Diamond Sword",
+        cause: "attack.player",
+    });
+    assertEquals(parseDeathMessage("death.attack.arrow", ["Steve", "Skeleton"]), {
+        victim: "Steve",
+        killer: "Skeleton",
+        weapon: undefined,
+        cause: "attack.arrow",
+    });
+    assertEquals(parseDeathMessage("death.fell.accident.generic", ["Steve"])?.killer, undefined);
+});
+
+Deno.test("Combat - Parse Plain Text Death Messages", () => {
+    assertEquals(parseDeathMessage(undefined, [], "Steve was slain by Alex using [Iron Axe]"), {
+        victim: "Steve",
+        killer: "Alex",
+        weapon: "Iron Axe",
+        cause: "attack.player",
+    });
+    assertEquals(parseDeathMessage("chat.type.text", ["Alex", "hello"], "<Alex> hello"), null);
+});
+
+// Bot with the events and state CombatTracker reads, positions on a line along x
+function createBot(username = "Bot") {
+    const at = (x: number) => ({ x, distanceTo: (other: { x: number }) => Math.abs(x - other.x) });
+    const bot = Object.assign(new EventEmitter(), {
+        username,
+        health: 20,
+        food: 20,
+        heldItem: { name: "iron_sword" },
+        entity: { id: 0, type: "player", username, isValid: true, position: at(0) },
+        entities: {} as Record<number, unknown>,
+    });
+    const addEntity = (id: number, type: string, name: string, x: number, heldItem?: string) => {
+        const entity = { id, type, username: type === "player" ? name : undefined, name, isValid: true, position: at(x) };
+        bot.entities[id] = { ...entity, heldItem: heldItem ? { name: heldItem } : undefined };
+        return bot.entities[id];
+    };
+    const damage = (health: number) => {
+        bot.emit("entityHurt", bot.entity);
+        bot.health = health;
+        bot.emit("health");
+    };
+    const chat = (translate: string | undefined, args: string[], text = "") => {
+        bot.emit("messagestr", text, "system", { translate, with: args.map((arg) => ({ toString: () => arg })) });
+    };
+    return { bot, addEntity, damage, chat };
+}
+
+function track(bot: unknown) {
+    const events: { type: CombatEventType; data: Record<string, unknown> }[] = [];
+    const tracker = new CombatTracker(bot as Bot, (type, data) => events.push({ type, data }));
+    return { tracker, events };
+}
+
+Deno.test("Combat - Attribute Damage And Deaths To The Last Attacker", () => {
+    const time = new FakeTime();
+    try {
+        const { bot, addEntity, damage } = createBot();
+        const { events } = track(bot);
+
+        // A player swinging in melee range comes before a closer mob
+        const alex = addEntity(1, "player", "Alex", 3, "diamond_sword");
+        addEntity(2, "hostile", "zombie", 1);
+        bot.emit("entitySwingArm", alex);
+        damage(14);
+        assertEquals(events[0], {
+            type: "botDamaged",
+            data: {
+                amount: 6,
+                health: 14,
+                attacker: "Alex",
+                attackerType: "player",
+                weapon: "diamond_sword",
+                distance: 3,
+                cause: "attack",
+            },
+        });
+
+        // Dying within the damage window credits the last attacker
+        time.tick(5000);
+        bot.emit("death");
+        time.tick(500);
+        assertEquals(events[1], {
+            type: "botDied",
+            data: { killer: "Alex", weapon: "diamond_sword", cause: "attack", source: "damage" },
+        });
+
+        // Once the window has passed the attacker is no longer credited
+        bot.health = 20;
+        bot.emit("spawn");
+        damage(10);
+        time.tick(10000);
+        bot.emit("death");
+        time.tick(500);
+        assertEquals(events[3], { type: "botDied", data: { killer: undefined, weapon: undefined, cause: "unknown", source: "none" } });
+    } finally {
+        time.restore();
+    }
+});
+
+Deno.test("Combat - Environmental And Self-Inflicted Deaths", () => {
+    const time = new FakeTime();
+    try {
+        const { bot, damage, chat } = createBot();
+        const { events } = track(bot);
+
+        // Damage with nobody around is environmental, or starvation without food
+        damage(17);
+        bot.food = 0;
+        damage(16);
+        assertEquals(events.map((event) => event.data.cause), ["environment", "starvation"]);
+
+        // The death message names the cause and no killer
+        bot.emit("death");
+        chat("death.fell.accident.generic", ["Bot"]);
+        time.tick(500);
+        assertEquals(events[2], {
+            type: "botDied",
+            data: { killer: undefined, weapon: undefined, cause: "fell.accident.generic", source: "chat" },
+        });
+
+        // Killing itself is a death, not a kill
+        bot.emit("death");
+        chat("death.attack.explosion.player", ["Bot", "Bot"]);
+        time.tick(500);
+        assertEquals(events.slice(3), [
+            { type: "botDied", data: { killer: "Bot", weapon: undefined, cause: "attack.explosion.player", source: "chat" } },
+        ]);
+    } finally {
+        time.restore();
+    }
+});
+
+Deno.test("Combat - Attribute Kills Once", () => {
+    const time = new FakeTime();
+    try {
+        const { bot, addEntity, chat } = createBot();
+        const { tracker, events } = track(bot);
+
+        // Without a death message a recent attack credits the kill
+        tracker.recordAttack("Steve");
+        bot.emit("entityDead", addEntity(1, "player", "Steve", 2));
+        time.tick(500);
+        assertEquals(events, [
+            { type: "playerKilled", data: { victim: "Steve", weapon: "iron_sword", cause: "attack.player", source: "entity" } },
+        ]);
+
+        // The death message is preferred and the entity event does not report the kill again
+        tracker.recordAttack("Alex");
+        const alex = addEntity(2, "player", "Alex", 2);
+        chat(undefined, [], "Alex was slain by Bot using [Iron Sword]");
+        bot.emit("entityDead", alex);
+        time.tick(500);
+        assertEquals(events.slice(1), [
+            { type: "playerKilled", data: { victim: "Alex", weapon: "Iron Sword", cause: "attack.player", source: "chat" } },
+        ]);
+
+        // Deaths long after the last attack are not the bot's kills
+        tracker.recordAttack("Sam");
+        time.tick(6000);
+        bot.emit("entityDead", addEntity(3, "player", "Sam", 2));
+        time.tick(500);
+        assertEquals(events.length, 2);
+    } finally {
+        time.restore();
+    }
+});
@@ -0,0 +1,125 @@
+import { assert, assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { Command, CommandRegistry, extractCommand } from "@/agent/commands.ts";
+
+function createCommand(name: string, params: Command["params"]): Command {
+    return { name, description: `${name} command`, params, run: () => Promise.resolve({ success: true, reason: "ran" }) };
+}
+
+function createRegistry(): CommandRegistry {
+    return new CommandRegistry()
+        .register(createCommand("goTo", [
+            { name: "x", type: "number" },
+            { name: "y", type: "number" },
+            { name: "z", type: "number" },
+            { name: "allowBreak", type: "boolean", optional: true },
+        ]))
+        .register(createCommand("say", [{ name: "message", type: "string" }]))
+        .register(createCommand("stop", []));
+}
+
+Deno.test("Commands - Extract Command From Prose", () => {
+    const result = extractCommand('Steve is close. !say("hi, \\"Steve\\"") and nothing else');
+
+    assert(result.ok);
+    assertEquals(result.call, { name: "say", args: ['hi, "Steve"'] });
+    assertEquals(result.text, '!say("hi, \\"Steve\\"")');
+});
+
+Deno.test("Commands - Parse Typed Arguments", () => {
+    const result = createRegistry().parse("!goTo(10, 64.5, -3, true)");
+
+    assert(result.ok);
+    assertEquals(result.command.name, "goTo");
+    assertEquals(result.args, { x: 10, y: 64.5, z: -3, allowBreak: true });
+});
+
+Deno.test("Commands - Optional And Empty Arguments", () => {
+    const registry = createRegistry();
+
+    const goTo = registry.parse("!goTo(1, 2, 3)");
+    assert(goTo.ok);
+    assertEquals(goTo.args.allowBreak, undefined);
+
+    assert(registry.parse("!stop").ok);
+    assert(registry.parse("!stop()").ok);
+});
+
+Deno.test("Commands - Validation Errors", () => {
+    const registry = createRegistry();
+
+    const missing = registry.parse("!goTo(1, 2)");
+    assert(!missing.ok);
+    assertEquals(missing.kind, "invalid");
+    assert(missing.error.includes("!goTo(x: number, y: number, z: number, allowBreak?: boolean)"));
+
+    const wrongType = registry.parse('!goTo(1, "up", 3)');
+    assert(!wrongType.ok);
+    assert(wrongType.error.includes("y must be a number"));
+
+    const unterminated = registry.parse('!say("hi)');
+    assert(!unterminated.ok);
+    assert(unterminated.error.includes("unterminated string"));
+
+    const none = registry.parse("I will just stand here");
+    assert(!none.ok);
+    assertEquals(none.kind, "invalid");
+});
+
+Deno.test("Commands - Unknown Command", () => {
+    const result = createRegistry().parse("!fly(100)");
+
+    assert(!result.ok);
+    assertEquals(result.kind, "unknown");
+    assert(result.error.includes("goTo, say, stop"));
+});
+
+Deno.test("Commands - Describe For Prompt", () => {
+    assertEquals(
+        createRegistry().describe(),
+        [
+            "- !goTo(x: number, y: number, z: number, allowBreak?: boolean): goTo command",
+            "- !say(message: string): say command",
+            "- !stop(): stop command",
+        ].join("\n"),
+    );
+});
+
+Deno.test("Commands - Resolve Named Arguments", () => {
+    const registry = createRegistry();
+
+    const goTo = registry.resolve("goTo", { x: 1, y: "64", z: -2 });
+    assert(goTo.ok);
+    assertEquals(goTo.args, { x: 1, y: 64, z: -2, allowBreak: undefined });
+    assertEquals(goTo.call, "!goTo(1, 64, -2)");
+
+    const missing = registry.resolve("goTo", { x: 1, y: 64 });
+    assert(!missing.ok);
+    assert(missing.error.includes("missing z"));
+
+    const unexpected = registry.resolve("say", { message: "hi", to: "Steve" });
+    assert(!unexpected.ok);
+    assert(unexpected.error.includes("unexpected arguments to"));
+
+    const unknown = registry.resolve("fly");
+    assert(!unknown.ok);
+    assertEquals(unknown.kind, "unknown");
+});
+
+Deno.test("Commands - Skipped Optional Arguments", () => {
+    const registry = createRegistry().register(createCommand("use", [
+        { name: "item", type: "string", optional: true },
+        { name: "seconds", type: "number", optional: true },
+    ]));
+
+    // Skipped arguments render as null and parse back as skipped
+    const resolved = registry.resolve("use", { seconds: 2 });
+    assert(resolved.ok);
+    assertEquals(resolved.call, "!use(null, 2)");
+    const parsed = registry.parse(resolved.call);
+    assert(parsed.ok);
+    assertEquals(parsed.args, { item: undefined, seconds: 2 });
+
+    const required = registry.parse("!goTo(1, null, 3)");
+    assert(!required.ok);
+    assert(required.error.includes("missing y"));
+});
@@ -1,7 +1,7 @@
 import { assertEquals, assertNotEquals, assertStrictEquals, assertExists } from "https://deno.land/std/assert/mod.ts";
 import { assertSpyCalls, spy, resolvesNext, stub } from "https://deno.land/std/testing/mock.ts";
 import { join } from "@std/path";
-import { Config } from "@/config.ts";
+import { BotsChange, Config, Settings } from "@/config.ts";
 
 // Mock path for testing
 const TEST_CONFIG_DIR = join(Deno.cwd(), "test_config");
@@ -252,4 +252,66 @@ Deno.test("Config - Reload Method", async () => {
 
     await cleanupTestEnvironment();
     resetConfigSingleton();
-});
\ No newline at end of file
+});
+Deno.test("Config - Environment And Flag Overrides", async () => {
+    resetConfigSingleton();
+
+    await setupTestEnvironment();
+    Deno.env.set("BA_PORT", "9000");
+    Deno.env.set("BA_WS_HOST", "env-host");
+    Deno.env.set("BA_WS_PORT", "8889");
+    Deno.env.set("BA_LLM_PROVIDER", "openai");
+    Deno.env.set("BA_LLM_API_KEY", "sk-test");
+
+    try {
+        // @ts-ignore: Access private constructor for testing
+        const config = new Config(TEST_CONFIG_DIR, ["--ws-host=flag-host", "--game-port", "25570"]);
+
+        // Environment variables override files, flags override environment variables
+        assertEquals(config.settings.port, 9000);
+        assertEquals(config.settings.websocket?.host, "flag-host");
+        assertEquals(config.game.port, 25570);
+        assertEquals(config.getErrors(), []);
+
+        const effective = config.getEffectiveConfig() as { settings: Settings };
+        assertEquals(effective.settings.llm?.apiKey, "<redacted>");
+    } finally {
+        Deno.env.delete("BA_PORT");
+        Deno.env.delete("BA_WS_HOST");
+        Deno.env.delete("BA_WS_PORT");
+        Deno.env.delete("BA_LLM_PROVIDER");
+        Deno.env.delete("BA_LLM_API_KEY");
+        await cleanupTestEnvironment();
+        resetConfigSingleton();
+    }
+});
+
+Deno.test("Config - Reload Reports Bot Changes", async () => {
+    resetConfigSingleton();
+
+    await setupTestEnvironment();
+
+    try {
+        // @ts-ignore: Access private constructor for testing
+        const config = new Config(TEST_CONFIG_DIR);
+        const changes: BotsChange[] = [];
+        config.onBotsChanged((change: BotsChange) => changes.push(change));
+
+        await Deno.remove(join(TEST_BOTS_DIR, "bot1.json"));
+        await Deno.writeTextFile(join(TEST_BOTS_DIR, "bot2.json"), JSON.stringify({ identity: "Changed", prompt: "I changed" }));
+        await Deno.writeTextFile(join(TEST_BOTS_DIR, "bot3.json"), JSON.stringify({ identity: "New", prompt: "I am new" }));
+        config.reload();
+
+        assertEquals(changes.length, 1);
+        assertEquals(changes[0].added.map((bot) => bot.name), ["bot3"]);
+        assertEquals(changes[0].removed, ["bot1"]);
+        assertEquals(changes[0].changed, [{ name: "bot2", identity: "Changed", prompt: "I changed" }]);
+
+        // Reloading unchanged files reports nothing
+        config.reload();
+        assertEquals(changes.length, 1);
+    } finally {
+        await cleanupTestEnvironment();
+        resetConfigSingleton();
+    }
+});
@@ -0,0 +1,30 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { EventHub, parseFilter, StreamEvent } from "@/utils/events.ts";
+
+Deno.test("Events - Parse Filter", () => {
+    const filter = parseFilter(new URLSearchParams("bot=alice,bob&type=hud&type= playerKilled"));
+    assertEquals(filter, { bots: ["alice", "bob"], types: ["hud", "playerKilled"] });
+    assertEquals(parseFilter(new URLSearchParams()), { bots: [], types: [] });
+});
+
+Deno.test("Events - Filtered Subscriptions", () => {
+    const hub = EventHub.getInstance();
+    const received: StreamEvent[] = [];
+    const handler = (event: StreamEvent) => received.push(event);
+    const unsubscribe = hub.subscribe(handler, { bots: ["alice"], types: ["hud", "playerKilled"] });
+
+    hub.publish("hud", { hudStr: "alice hud" }, "alice", "botHUDSync");
+    hub.publish("hud", { hudStr: "bob hud" }, "bob", "botHUDSync");
+    hub.publish("game", { victim: "bob" }, "alice", "playerKilled");
+    hub.publish("game", { damage: 2 }, "alice", "botDamaged");
+    assertEquals(received.map((event) => event.event), ["botHUDSync", "playerKilled"]);
+
+    hub.setFilter(handler, { types: ["status"] });
+    hub.publish("status", { status: "running" }, "bob", "running");
+    assertEquals(received.length, 3);
+
+    unsubscribe();
+    hub.publish("status", { status: "idle" }, "bob", "idle");
+    assertEquals(received.length, 3);
+    assertEquals(hub.getSubscriberCount(), 0);
+});
@@ -0,0 +1,34 @@
+import { assertEquals, assertThrows } from "https://deno.land/std/assert/mod.ts";
+import { join } from "@std/path";
+import { parseArgs, parseBits, rotationPaths } from "$/scripts/keys.ts";
+
+Deno.test("Keys - Parse Arguments", () => {
+    const { positionals, flags } = parseArgs(["rotate", "stage", "--bits", "4096", "--force", "extra", "--private=./a=b.pem", "--out"]);
+
+    assertEquals(positionals, ["rotate", "stage", "extra"]);
+    assertEquals(Object.fromEntries(flags), { bits: "4096", force: "true", private: "./a=b.pem", out: "true" });
+    assertEquals(Object.fromEntries(parseArgs(["--name", "--force"]).flags), { name: "true", force: "true" });
+});
+
+Deno.test("Keys - Parse Bits", () => {
+    assertEquals(parseBits(new Map()), 2048);
+    assertEquals(parseBits(new Map([["bits", "3072"]])), 3072);
+    assertThrows(() => parseBits(new Map([["bits", "1024"]])), Error, "--bits must be 2048, 3072 or 4096");
+    assertThrows(() => parseBits(new Map([["bits", "true"]])), Error, "--bits");
+});
+
+Deno.test("Keys - Rotation Paths", () => {
+    assertEquals(rotationPaths(join("keys", "ba_client_private.pem")), {
+        current: { privatePath: join("keys", "ba_client_private.pem"), publicPath: join("keys", "ba_client_public.pem") },
+        next: { privatePath: join("keys", "ba_client_private.next.pem"), publicPath: join("keys", "ba_client_public.next.pem") },
+        old: { privatePath: join("keys", "ba_client_private.old.pem"), publicPath: join("keys", "ba_client_public.old.pem") },
+    });
+
+    // Names without "private" get a _public suffix for the public key
+    const { current, next } = rotationPaths("client.pem");
+    assertEquals([current.publicPath, next.privatePath, next.publicPath], [
+        "client_public.pem",
+        "client.next.pem",
+        "client_public.next.pem",
+    ]);
+});
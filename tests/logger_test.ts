@@ -0,0 +1,91 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { ConsoleSink, formatRecord, logger, LogLevel, LogRecord, RotatingFileSink } from "@/utils/logger.ts";
+
+const record: LogRecord = {
+    timestamp: "2025-01-01T00:00:00.000Z",
+    level: LogLevel.WARN,
+    prefix: "Agent",
+    message: "low health",
+    fields: { bot: "alice", worker: "1a2b3c4d", match: undefined },
+};
+
+Deno.test("Logger - Format Records", () => {
+    assertEquals(formatRecord(record, "pretty"), "[2025-01-01T00:00:00.000Z] [WARN] [Agent] [bot=alice worker=1a2b3c4d] low health");
+    assertEquals(
+        JSON.parse(formatRecord({ ...record, error: "Error: boom" }, "json")),
+        {
+            timestamp: "2025-01-01T00:00:00.000Z",
+            level: "warn",
+            prefix: "Agent",
+            message: "low health",
+            bot: "alice",
+            worker: "1a2b3c4d",
+            error: "Error: boom",
+        },
+    );
+});
+
+Deno.test("Logger - Levels And Fields", () => {
+    const records: LogRecord[] = [];
+    logger.setSinks([{ write: (entry) => records.push(entry) }]);
+    try {
+        logger.setLevel("info");
+        logger.setGlobalFields({ match: "m1" });
+        const botLogger = logger.withPrefix("Worker").withFields({ bot: "alice" });
+
+        botLogger.debug("hidden");
+        botLogger.info("shown");
+        logger.setLevel("debug");
+        botLogger.debug("now shown");
+
+        assertEquals(records.map((entry) => entry.message), ["shown", "now shown"]);
+        assertEquals(records[0].fields, { match: "m1", bot: "alice" });
+        assertEquals(records[0].prefix, "Worker");
+    } finally {
+        logger.setGlobalFields({ match: undefined });
+        logger.setLevel("info");
+        logger.setSinks([new ConsoleSink()]);
+    }
+});
+
+Deno.test("Logger - Prefix And Bot Levels", () => {
+    const records: LogRecord[] = [];
+    logger.setSinks([{ write: (entry) => records.push(entry) }]);
+    try {
+        logger.setLevels({ level: "warn", prefixes: { Crypto: "debug" } });
+        logger.setBotLevel("alice", "error");
+        const crypto = logger.withPrefix("Crypto");
+
+        crypto.debug("crypto debug");
+        logger.withPrefix("WebSocket").info("hidden");
+        crypto.withFields({ bot: "alice" }).warn("bot override wins");
+        crypto.withFields({ bot: "bob" }).debug("bob debug");
+        logger.setPrefixLevel("Crypto", null);
+        crypto.info("hidden again");
+
+        assertEquals(records.map((entry) => entry.message), ["crypto debug", "bob debug"]);
+        assertEquals(logger.getLevels(), { level: "warn", prefixes: {}, bots: { alice: "error" } });
+    } finally {
+        logger.setLevels({ level: "info" });
+        logger.setSinks([new ConsoleSink()]);
+    }
+});
+
+Deno.test("Logger - Rotate Files", () => {
+    const dir = Deno.makeTempDirSync();
+    const path = `${dir}/bots/alice.log`;
+    const sink = new RotatingFileSink(path, { format: "pretty", maxBytes: 200, maxFiles: 2 });
+    try {
+        for (let i = 0; i < 10; i++) {
+            sink.write({ ...record, message: `line ${i}` });
+        }
+        sink.close();
+
+        assertEquals(Deno.readTextFileSync(path).trim().split("\n").at(-1)?.endsWith("line 9"), true);
+        assertEquals(Deno.statSync(`${path}.1`).isFile, true);
+        assertEquals(Deno.statSync(`${path}.2`).isFile, true);
+        assertEquals([...Deno.readDirSync(`${dir}/bots`)].length, 3);
+    } finally {
+        Deno.removeSync(dir, { recursive: true });
+    }
+});
@@ -0,0 +1,62 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { Match, MatchState } from "@/game/match.ts";
+
+Deno.test("Match - Lifecycle", () => {
+    const match = new Match();
+    assertEquals(match.getState(), MatchState.LOBBY);
+
+    match.start(["alice", "bob"], 0);
+    assertEquals(match.getState(), MatchState.RUNNING);
+    assertEquals(match.getBots(), ["alice", "bob"]);
+
+    match.pause(1000);
+    assertEquals(match.getState(), MatchState.PAUSED);
+
+    match.resume(5000);
+    const scoreboard = match.end(6000);
+    assertEquals(scoreboard.state, MatchState.ENDED);
+    assertEquals(scoreboard.duration, 2000);
+
+    match.reset();
+    assertEquals(match.getState(), MatchState.LOBBY);
+    assertEquals(match.getBots(), []);
+});
+
+Deno.test("Match - Scoreboard", () => {
+    const match = new Match();
+    match.start(["alice", "bob", "carol"], 0);
+    match.setRole("alice", "assassin", "bob");
+    match.setRole("bob", "target");
+    match.setRole("carol", "bystander");
+
+    match.recordKill("alice", "bob");
+    match.recordDeath("bob", 3000);
+    match.pause(4000);
+    match.resume(10000);
+
+    const { entries } = match.end(12000);
+    const [alice, bob, carol] = entries;
+
+    assertEquals(alice.kills, 1);
+    assertEquals(alice.objectiveCompleted, true);
+    assertEquals(alice.survivalTime, 6000);
+
+    assertEquals(bob.deaths, 1);
+    assertEquals(bob.alive, false);
+    assertEquals(bob.survivalTime, 3000);
+    assertEquals(bob.objectiveCompleted, false);
+
+    assertEquals(carol.objectiveCompleted, true);
+});
+
+Deno.test("Match - Kill Violations", () => {
+    const match = new Match();
+    match.start(["alice", "bob", "carol"], 0);
+    match.setRole("alice", "assassin", "bob");
+    match.setRole("bob", "target");
+
+    assertEquals(match.getViolation("alice", "bob"), null);
+    assertEquals(match.getViolation("alice", "carol"), "assassin alice killed carol instead of the target bob");
+    assertEquals(match.getViolation("bob", "alice"), "target bob killed alice");
+    assertEquals(match.getViolation("carol", "alice"), null);
+});
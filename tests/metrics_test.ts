@@ -0,0 +1,38 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { MetricsRegistry } from "@/utils/metrics.ts";
+
+Deno.test("Metrics - Render Prometheus Text", () => {
+    const registry = new MetricsRegistry();
+    const sent = registry.counter("test_messages_total", "Messages by type");
+    const health = registry.gauge("test_health", "Health");
+    const duration = registry.histogram("test_duration_seconds", "Duration", [0.1, 1]);
+
+    sent.inc({ type: "botChat" });
+    sent.inc({ type: "botChat" }, 2);
+    health.set({ bot: 'a"b' }, 20);
+    registry.addCollector(() => health.set({ bot: "c" }, 5));
+    duration.observe({}, 0.05);
+    duration.observe({}, 0.5);
+
+    assertEquals(registry.counter("test_messages_total", "ignored"), sent);
+    assertEquals(
+        registry.render(),
+        [
+            "# HELP test_messages_total Messages by type",
+            "# TYPE test_messages_total counter",
+            'test_messages_total{type="botChat"} 3',
+            "# HELP test_health Health",
+            "# TYPE test_health gauge",
+            'test_health{bot="a\\"b"} 20',
+            'test_health{bot="c"} 5',
+            "# HELP test_duration_seconds Duration",
+            "# TYPE test_duration_seconds histogram",
+            'test_duration_seconds_bucket{le="0.1"} 1',
+            'test_duration_seconds_bucket{le="1"} 2',
+            'test_duration_seconds_bucket{le="+Inf"} 2',
+            "test_duration_seconds_sum 0.55",
+            "test_duration_seconds_count 2",
+            "",
+        ].join("\n"),
+    );
+});
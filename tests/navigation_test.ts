@@ -0,0 +1,125 @@
+import { assert, assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { findPath } from "@/agent/navigation/astar.ts";
+import { GoalBlock, GoalNear } from "@/agent/navigation/goals.ts";
+import { BlockInfo, BlockLookup, Movements } from "@/agent/navigation/movements.ts";
+
+const STONE: BlockInfo = { name: "stone", boundingBox: "block", diggable: true, hardness: 1.5 };
+const BEDROCK: BlockInfo = { name: "bedrock", boundingBox: "block", diggable: false, hardness: null };
+const AIR: BlockInfo = { name: "air", boundingBox: "empty", diggable: false, hardness: 0 };
+const WATER: BlockInfo = { name: "water", boundingBox: "empty", diggable: false, hardness: 100 };
+
+// Build an in-memory world: a stone floor at y = 63 plus extra blocks
+function createWorld(blocks: Record<string, BlockInfo> = {}): BlockLookup {
+    return (x, y, z) => {
+        const block = blocks[`${x},${y},${z}`];
+        if (block) return block;
+        if (Math.abs(x) > 32 || Math.abs(z) > 32) return null; // Unloaded chunks
+        return y <= 63 ? STONE : AIR;
+    };
+}
+
+// Put a wall across x at the given position, reaching from the bottom of the world
+function wall(x: number, block: BlockInfo, height = 4): Record<string, BlockInfo> {
+    const blocks: Record<string, BlockInfo> = {};
+    for (let z = -32; z <= 32; z++) {
+        for (let y = 0; y < 64 + height; y++) {
+            blocks[`${x},${y},${z}`] = block;
+        }
+    }
+    return blocks;
+}
+
+Deno.test("Navigation - Walk On Flat Ground", () => {
+    const movements = new Movements(createWorld());
+    const result = findPath({ x: 0, y: 64, z: 0 }, new GoalBlock(5, 64, 0), movements);
+
+    assertEquals(result.status, "success");
+    assertEquals(result.path.length, 5);
+    assertEquals(result.path.at(-1), { x: 5, y: 64, z: 0, kind: "walk", cost: 1, breaks: [], place: null });
+});
+
+Deno.test("Navigation - Jump Up And Drop Down", () => {
+    const movements = new Movements(createWorld({ "2,64,0": STONE, "2,64,1": STONE, "2,64,-1": STONE }));
+    const result = findPath({ x: 0, y: 64, z: 0 }, new GoalBlock(2, 65, 0), movements);
+
+    assertEquals(result.status, "success");
+    assertEquals(result.path.at(-1)?.kind, "jump");
+
+    const down = findPath({ x: 2, y: 65, z: 0 }, new GoalBlock(4, 64, 0), movements);
+    assertEquals(down.status, "success");
+    assert(down.path.some((move) => move.kind === "drop"));
+});
+
+Deno.test("Navigation - Heuristic Does Not Overestimate Drops", () => {
+    // A three block ledge, dropping off it is cheaper than one per block
+    const movements = new Movements(createWorld({ "0,64,0": STONE, "0,65,0": STONE, "0,66,0": STONE }));
+    const goal = new GoalBlock(1, 64, 0);
+    const result = findPath({ x: 0, y: 67, z: 0 }, goal, movements);
+
+    assertEquals(result.status, "success");
+    assertEquals(result.path.map((move) => move.kind), ["drop"]);
+    const cost = result.path.reduce((sum, move) => sum + move.cost, 0);
+    assert(goal.heuristic(0, 67, 0) <= cost);
+    assertEquals(goal.heuristic(1, 64, 0), 0);
+});
+
+Deno.test("Navigation - Wall Requires Breaking", () => {
+    const world = createWorld(wall(3, STONE, 2));
+    const goal = new GoalBlock(6, 64, 0);
+
+    const blocked = findPath({ x: 0, y: 64, z: 0 }, goal, new Movements(world), { maxNodes: 5000 });
+    assert(blocked.status !== "success");
+
+    const breaking = findPath({ x: 0, y: 64, z: 0 }, goal, new Movements(world, { allowBreak: true }));
+    assertEquals(breaking.status, "success");
+    assert(breaking.path.some((move) => move.breaks.length > 0));
+});
+
+Deno.test("Navigation - Unbreakable Blocks Are Never Broken", () => {
+    const world = createWorld(wall(3, BEDROCK));
+    const result = findPath({ x: 0, y: 64, z: 0 }, new GoalBlock(6, 64, 0), new Movements(world, { allowBreak: true }), {
+        maxNodes: 5000,
+    });
+
+    assert(result.status !== "success");
+});
+
+Deno.test("Navigation - Bridge Over Gap", () => {
+    const gap: Record<string, BlockInfo> = {};
+    for (let z = -32; z <= 32; z++) {
+        for (let y = 0; y <= 63; y++) {
+            gap[`2,${y},${z}`] = AIR;
+            gap[`3,${y},${z}`] = AIR;
+        }
+    }
+    const world = createWorld(gap);
+    const goal = new GoalBlock(5, 64, 0);
+
+    const withoutBlocks = findPath({ x: 0, y: 64, z: 0 }, goal, new Movements(world), { maxNodes: 5000 });
+    assert(withoutBlocks.status !== "success");
+
+    const bridging = findPath({ x: 0, y: 64, z: 0 }, goal, new Movements(world, { allowPlace: true }));
+    assertEquals(bridging.status, "success");
+    assertEquals(bridging.path.filter((move) => move.place !== null).length, 2);
+});
+
+Deno.test("Navigation - Swim Through Water", () => {
+    const pool: Record<string, BlockInfo> = {};
+    for (let x = 2; x <= 4; x++) {
+        for (let z = -32; z <= 32; z++) {
+            pool[`${x},63,${z}`] = WATER;
+            pool[`${x},64,${z}`] = WATER;
+        }
+    }
+    const result = findPath({ x: 0, y: 64, z: 0 }, new GoalBlock(6, 64, 0), new Movements(createWorld(pool)));
+
+    assertEquals(result.status, "success");
+    assert(result.path.some((move) => move.kind === "swim"));
+});
+
+Deno.test("Navigation - Partial Path Towards Unloaded Goal", () => {
+    const result = findPath({ x: 0, y: 64, z: 0 }, new GoalNear(100, 64, 0, 1), new Movements(createWorld()));
+
+    assertEquals(result.status, "partial");
+    assertEquals(result.path.at(-1)?.x, 32);
+});
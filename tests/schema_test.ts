@@ -0,0 +1,29 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { schema, validate } from "@/utils/schema.ts";
+
+const settingsSchema = schema.object({
+    host: schema.string().default("localhost"),
+    port: schema.number({ integer: true, min: 1, max: 65535 }),
+    websocket: schema.object({
+        pem: schema.object({ serverPublicKey: schema.string() }).optional(),
+    }).optional(),
+    keys: schema.array(schema.object({ role: schema.oneOf("viewer", "admin") })).default([]),
+});
+
+Deno.test("Schema - Defaults And Unknown Keys", () => {
+    const result = validate(settingsSchema, { port: 10101, websocket: { pems: {} } });
+
+    assertEquals(result.value, { host: "localhost", port: 10101, websocket: {}, keys: [] });
+    assertEquals(result.errors, []);
+    assertEquals(result.warnings, [{ path: "$.websocket.pems", message: "unknown key, expected one of pem" }]);
+});
+
+Deno.test("Schema - Errors With JSON Paths", () => {
+    const result = validate(settingsSchema, { port: "8888", keys: [{ role: "admin" }, { role: "root" }] });
+
+    assertEquals(result.value, undefined);
+    assertEquals(result.errors, [
+        { path: "$.port", message: 'expected integer between 1 and 65535, got string "8888"' },
+        { path: "$.keys[1].role", message: 'expected one of "viewer", "admin", got string "root"' },
+    ]);
+});
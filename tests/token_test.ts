@@ -0,0 +1,155 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { assertSpyCalls, resolvesNext, stub } from "https://deno.land/std/testing/mock.ts";
+import { FakeTime } from "https://deno.land/std/testing/time.ts";
+import { decodeJwtClaims, getTokenExpiry, isTokenExpired, TokenProvider } from "@/server/token.ts";
+import { TokenSettings } from "@/config.ts";
+
+function makeToken(claims: Record<string, unknown>): string {
+    const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    return `${encode({ alg: "HS512", typ: "JWT" })}.${encode(claims)}.signature`;
+}
+
+Deno.test("Token - Decode Claims And Expiry", () => {
+    const token = makeToken({ sub: "client", exp: 1743698564, role: "admin" });
+
+    assertEquals(decodeJwtClaims(token), { sub: "client", exp: 1743698564, role: "admin" });
+    assertEquals(getTokenExpiry(token), 1743698564000);
+    assertEquals(isTokenExpired(token, 1743698563000), false);
+    assertEquals(isTokenExpired(token, 1743698564000), true);
+
+    assertEquals(decodeJwtClaims("not-a-jwt"), null);
+    assertEquals(decodeJwtClaims("a.%%%.c"), null);
+    assertEquals(getTokenExpiry(makeToken({ sub: "client" })), null);
+    assertEquals(isTokenExpired(makeToken({ sub: "client" })), false);
+});
+
+// Token expiring the given number of seconds from now
+function tokenExpiringIn(seconds: number, sub = "client"): string {
+    return makeToken({ sub, exp: Math.floor(Date.now() / 1000) + seconds });
+}
+
+// Run with a provider reading a temporary token file, recording the tokens its listener receives
+async function withProvider(
+    settings: TokenSettings,
+    fn: (provider: TokenProvider, tokenFile: string, tokens: string[]) => Promise<void>,
+) {
+    const tokenFile = await Deno.makeTempFile();
+    // @ts-ignore: Access private constructor for testing
+    const provider: TokenProvider = new TokenProvider({ tokenFile, refreshBefore: 300, ...settings });
+    const tokens: string[] = [];
+    provider.onToken((token) => tokens.push(token));
+    try {
+        await fn(provider, tokenFile, tokens);
+    } finally {
+        provider.stop();
+        await Deno.remove(tokenFile);
+    }
+}
+
+Deno.test("Token - Start And Schedule Refresh Before Expiry", async () => {
+    using time = new FakeTime();
+    await withProvider({}, async (provider, tokenFile, tokens) => {
+        const token = tokenExpiringIn(3600);
+        await Deno.writeTextFile(tokenFile, `${token}\n`);
+
+        assertEquals(await provider.start(), true);
+        assertEquals(provider.getToken(), token);
+        assertEquals(tokens, [token]);
+
+        // The refresh runs refreshBefore seconds before expiry
+        using refresh = stub(provider, "refresh", () => Promise.resolve(true));
+        time.tick((3600 - 300) * 1000 - 1000);
+        assertSpyCalls(refresh, 0);
+        time.tick(1000);
+        assertSpyCalls(refresh, 1);
+    });
+});
+
+Deno.test("Token - Refresh From File", async () => {
+    using _time = new FakeTime();
+    await withProvider({}, async (provider, tokenFile, tokens) => {
+        const first = tokenExpiringIn(3600);
+        await Deno.writeTextFile(tokenFile, first);
+        await provider.start();
+
+        // The same token again is not a refresh
+        assertEquals(await provider.refresh(), false);
+        assertEquals(tokens, [first]);
+
+        // A listener that throws does not keep the token from the others
+        provider.onToken(() => {
+            throw new Error("listener failed");
+        });
+        const late: string[] = [];
+        provider.onToken((token) => late.push(token));
+
+        const second = tokenExpiringIn(7200, "renewed");
+        await Deno.writeTextFile(tokenFile, second);
+        assertEquals(await provider.refresh(), true);
+        assertEquals(provider.getToken(), second);
+        assertEquals([tokens, late], [[first, second], [second]]);
+
+        // An expired token is refused and the current one kept
+        await Deno.writeTextFile(tokenFile, tokenExpiringIn(-60));
+        assertEquals(await provider.refresh(), false);
+        assertEquals(provider.getToken(), second);
+    });
+});
+
+Deno.test("Token - Refresh From Endpoint", async () => {
+    using time = new FakeTime();
+    await withProvider({ refreshUrl: "https://auth.example/refresh" }, async (provider, tokenFile, tokens) => {
+        const first = tokenExpiringIn(3600);
+        const second = tokenExpiringIn(7200, "renewed");
+        await Deno.writeTextFile(tokenFile, first);
+        await provider.start();
+
+        using fetchStub = stub(
+            globalThis,
+            "fetch",
+            resolvesNext([
+                new Response(JSON.stringify({ token: second })),
+                new Response("unavailable", { status: 503 }),
+                new Response(JSON.stringify({ access_token: first })),
+            ]),
+        );
+        assertEquals(await provider.refresh(), true);
+        const [url, init] = fetchStub.calls[0].args;
+        assertEquals([url, init?.method, (init?.headers as Record<string, string>).Authorization], [
+            "https://auth.example/refresh",
+            "POST",
+            `Bearer ${first}`,
+        ]);
+        assertEquals(tokens, [first, second]);
+
+        // A failed refresh keeps the current token and retries shortly after
+        assertEquals(await provider.refresh(), false);
+        assertEquals(provider.getToken(), second);
+        await time.tickAsync(30000);
+        assertSpyCalls(fetchStub, 3);
+        assertEquals(tokens, [first, second, first]);
+    });
+});
+
+Deno.test("Token - Expired Token Is Exchanged At The Refresh URL", async () => {
+    using _time = new FakeTime();
+    const expired = tokenExpiringIn(-60);
+    const fresh = tokenExpiringIn(3600, "renewed");
+
+    await withProvider({ refreshUrl: "https://auth.example/refresh" }, async (provider, tokenFile, tokens) => {
+        await Deno.writeTextFile(tokenFile, expired);
+        using fetchStub = stub(globalThis, "fetch", resolvesNext([new Response(JSON.stringify({ token: fresh }))]));
+
+        assertEquals(await provider.start(), true);
+        assertEquals((fetchStub.calls[0].args[1]?.headers as Record<string, string>).Authorization, `Bearer ${expired}`);
+        assertEquals([provider.getToken(), tokens], [fresh, [fresh]]);
+    });
+
+    // Without a refresh URL the expired token is refused
+    await withProvider({}, async (provider, tokenFile, tokens) => {
+        await Deno.writeTextFile(tokenFile, expired);
+
+        assertEquals(await provider.start(), false);
+        assertEquals([provider.getToken(), tokens], [null, []]);
+    });
+});
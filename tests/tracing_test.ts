@@ -0,0 +1,10 @@
+import { assertEquals } from "https://deno.land/std/assert/mod.ts";
+import { extractContext, injectContext } from "@/utils/tracing.ts";
+
+Deno.test("Tracing - Trace Context Round Trip", () => {
+    const carrier = { traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01" };
+
+    assertEquals(injectContext(extractContext(carrier)), carrier);
+    assertEquals(injectContext(extractContext({ traceparent: "00-invalid-01" })), undefined);
+    assertEquals(injectContext(extractContext(undefined)), undefined);
+});
@@ -0,0 +1,19 @@
+import { assertEquals, assertFalse, assertRejects } from "https://deno.land/std/assert/mod.ts";
+import { WebSocketClient } from "@/server/websocket.ts";
+import { GameSentMessageType, GameService } from "@/game/index.ts";
+import { EventHub, StreamEvent } from "@/utils/events.ts";
+import "@/game/listener.ts";
+import "@/game/messager.ts";
+
+Deno.test("WebSocket - Send Without Socket", async () => {
+    const client = WebSocketClient.getInstance();
+    assertFalse(client.isAuthenticated());
+    await assertRejects(() => client.send({ type: "ping" }), Error, "No WebSocket connection");
+
+    // Bot messages are still published locally but not sent
+    const published: StreamEvent[] = [];
+    const unsubscribe = EventHub.getInstance().subscribe((event) => published.push(event), { types: ["hud"] });
+    await GameService.getInstance().sendBotMessage("Alice", { type: GameSentMessageType.BOT_HUDSYNC, data: { hudStr: "{}" } });
+    unsubscribe();
+    assertEquals(published.map((event) => event.event), [GameSentMessageType.BOT_HUDSYNC]);
+});